@@ -1,111 +1,142 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GameState, ImageSize, ChatMessage, GameHistoryItem, SaveSlot, UsageStats, AIProvider } from './types';
-import { generateStoryBeat, generateImage, getChatResponse, calculateEstimatedCost, getStoredApiKey, setStoredApiKey, hasApiKey } from './aiService';
+import { GameState, ImageSize, AspectRatio, ChatMessage, GameHistoryItem, SaveSlot, UsageStats, AIProvider, NarrativeMemory, MemoryNotes, CheckResult, QuestStatus } from './types';
+import { generateStoryBeatStream, generateImage, getChatResponse, calculateEstimatedCost, getStoredApiKey, setStoredApiKey, hasApiKey, getFailoverChain, setFailoverChain, resolveProviderChain, getLocalModelSettings, setLocalModelSettings, DEFAULT_LOCAL_BASE_URL, DEFAULT_LOCAL_MODEL, LocalModelSettings } from './aiService';
+import { getRegisteredProviders, getProviderAdapter, getProviderCapabilities } from './providerRegistry';
+import { AuthError, CancelledError, ErrorNotice, describeError } from './aiErrors';
+import { ModelRole, MODEL_CATALOG, getModelsFor, getSelectedModel, setSelectedModel, getImageCapabilities } from './modelCatalog';
+import { PromptTemplateId, DEFAULT_TEMPLATES, TEMPLATE_IDS, renderPrompt, getTemplateText, getTemplateVersion, isTemplateOverridden, setTemplateOverride, resetTemplate, findUnknownVariables } from './promptTemplates';
+import { EMPTY_MEMORY, rememberBeat, rebuildMemory, rewindMemory, memoryContextForChain, splitMemoryNotes } from './narrativeMemory';
+import { AssetUsage, storeImage, getAssetUrl, isAssetRef, evictAssets, referencedAssets, quarantinedAssets, getAssetUsage, formatBytes } from './assetStore';
+import { SAVE_SCHEMA_VERSION } from './saveSchema';
+import { createBundle, serializeBundle, bundleFileName, importBundle } from './campaignBundle';
+import { PublishFormat, genreFontClass, buildBook, publishBook } from './storyPublisher';
+import { BranchNode, rewindStory, forkSave, timelineOf, countBranches, beatIndexAt } from './timeline';
+import { addTake, selectTake, attachImage, takeCount } from './beatTakes';
+import { MAX_ACTION_LENGTH, normalizeAction, splitActionCheck } from './playerActions';
+import { settleInventory, formatChange } from './inventory';
+import { ATTRIBUTES, checkFor, resolveCheck, settleCharacter, formatCheck, formatModifier, modifierFor } from './characterSheet';
+import { createSeed } from './dice';
+import { settleQuests, sortQuests, questEventsAt } from './questLog';
+import { DEFAULT_PREFERENCES, QuarantinedSave, loadSaves, writeSave, removeSave, loadPreferences, savePreferences, loadQuarantine, discardQuarantined } from './saveStore';
+import { CassetteMode, getCassetteMode, startRecording, stopRecording, loadCassette, ejectCassette, parseCassette } from './cassette';
 
-const STORAGE_KEY = 'CHRONICLE_WEAVER_SAVES_V2';
-const DEFAULT_BUDGET_THRESHOLD = 5.00;
 
 const initialUsageStats: UsageStats = {
   inputTokens: 0,
   outputTokens: 0,
   imageCount: 0,
   premiumImageCount: 0,
-  estimatedCost: 0
+  estimatedCost: 0,
+  rerollCount: 0,
+  rerollCost: 0
 };
 
 type TextCase = 'normal' | 'uppercase' | 'lowercase';
 
+type ModelSelections = Partial<Record<AIProvider, Partial<Record<ModelRole, string>>>>;
+
+const MODEL_ROLES: ModelRole[] = ['text', 'chat', 'image'];
+const MODEL_ROLE_LABELS: Record<ModelRole, string> = { text: 'Story', chat: 'Chronicler', image: 'Images' };
+
+const QUEST_MARKS: Record<QuestStatus, string> = { active: '⚑', completed: '✓', failed: '✗', abandoned: '–' };
+
+const CATALOG_PROVIDERS = (Object.keys(MODEL_CATALOG) as AIProvider[]).filter(provider => MODEL_CATALOG[provider].length > 0);
+
+const readModelSelections = (): ModelSelections => {
+  const selections: ModelSelections = {};
+  for (const provider of CATALOG_PROVIDERS) {
+    selections[provider] = {};
+    for (const role of MODEL_ROLES) {
+      if (getModelsFor(provider, role).length > 0) selections[provider]![role] = getSelectedModel(provider, role);
+    }
+  }
+  return selections;
+};
+
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [history, setHistory] = useState<GameHistoryItem[]>([]);
+  const [memory, setMemory] = useState<NarrativeMemory>(EMPTY_MEMORY);
+  // Object URLs for scene images read back from the asset store, keyed by asset reference
+  const [assetUrls, setAssetUrls] = useState<Record<string, string>>({});
+  const [assetUsage, setAssetUsage] = useState<AssetUsage | null>(null);
   const [loading, setLoading] = useState(false);
   const [imageLoading, setImageLoading] = useState(false);
   const [chatLoading, setChatLoading] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState('');
+  const [actionInput, setActionInput] = useState('');
+  const [streamingText, setStreamingText] = useState('');
+  const [errorNotice, setErrorNotice] = useState<ErrorNotice | null>(null);
   const [imageSize, setImageSize] = useState<ImageSize>(ImageSize.K1);
-  const [useHighRes, setUseHighRes] = useState(false);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
   const [imageQuality, setImageQuality] = useState<'standard' | 'fast'>('standard');
   const [textOnlyMode, setTextOnlyMode] = useState(false);
+  // Whether new campaigns start with a character sheet and dice-rolled skill checks
+  const [characterMode, setCharacterMode] = useState(false);
   const [textCase, setTextCase] = useState<TextCase>('normal');
-  const [fontSize, setFontSize] = useState(16);
+  const [fontSize, setFontSize] = useState(DEFAULT_PREFERENCES.fontSize);
   const [showKeyModal, setShowKeyModal] = useState(false);
   const [apiKeyInputs, setApiKeyInputs] = useState({
     [AIProvider.OPENAI]: '',
     [AIProvider.GEMINI]: '',
-    [AIProvider.CLAUDE]: ''
+    [AIProvider.CLAUDE]: '',
+    [AIProvider.LOCAL]: ''
   });
+  const [localSettingsInput, setLocalSettingsInput] = useState<LocalModelSettings>({ baseUrl: '', model: '' });
+  const [modelInputs, setModelInputs] = useState<ModelSelections>({});
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('openingScene');
+  const [templateDraft, setTemplateDraft] = useState('');
+  const storyAbortRef = useRef<AbortController | null>(null);
+  const imageAbortRef = useRef<AbortController | null>(null);
   const [gameStarted, setGameStarted] = useState(false);
   const [customGenre, setCustomGenre] = useState('');
   const [saves, setSaves] = useState<SaveSlot[]>([]);
+  // Saves that could not be read or upgraded, shown so the player knows they exist
+  const [quarantined, setQuarantined] = useState<QuarantinedSave[]>([]);
   const [currentSaveId, setCurrentSaveId] = useState<string | null>(null);
+  // The current save's dice seed, held here so a check never waits on saves to catch up
+  const [diceSeed, setDiceSeed] = useState<number | null>(null);
   const [usageStats, setUsageStats] = useState<UsageStats>(initialUsageStats);
-  const [budgetThreshold, setBudgetThreshold] = useState(DEFAULT_BUDGET_THRESHOLD);
+  // True while the player is flipping through rerolled takes of the latest beat
+  const [reviewingTakes, setReviewingTakes] = useState(false);
+  // Memory as it stood before the latest beat, plus that beat's notes, so switching takes can swap them
+  const latestBeatRef = useRef<{ memoryBefore: NarrativeMemory; notes?: MemoryNotes } | null>(null);
+  const [budgetThreshold, setBudgetThreshold] = useState(DEFAULT_PREFERENCES.budgetThreshold);
   const [isArchivesCollapsed, setIsArchivesCollapsed] = useState(true);
   const [isLeftPanelCollapsed, setIsLeftPanelCollapsed] = useState(true);
-
-  // Autosave functionality
-  useEffect(() => {
-    if (gameState && currentSaveId) {
-      const autosaveData = {
-        gameState,
-        history,
-        usageStats,
-        lastSaved: Date.now()
-      };
-      localStorage.setItem(`autosave_${currentSaveId}`, JSON.stringify(autosaveData));
-    }
-  }, [gameState, history, usageStats, currentSaveId]);
-
-  // Load autosave on mount
-  useEffect(() => {
-    const storedFs = localStorage.getItem('PREF_FONT_SIZE');
-    if (storedFs) setFontSize(parseInt(storedFs));
-    
-    // Load any existing autosaves
-    const loadAutosaves = () => {
-      const autosaves: any[] = [];
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key?.startsWith('autosave_')) {
-          try {
-            const data = JSON.parse(localStorage.getItem(key) || '{}');
-            autosaves.push({ id: key.replace('autosave_', ''), ...data });
-          } catch (e) {
-            console.warn('Failed to parse autosave:', key);
-          }
-        }
-      }
-      return autosaves;
-    };
-    
-    const autosaves = loadAutosaves();
-    if (autosaves.length > 0) {
-      console.log('Found autosaves:', autosaves.length);
-    }
-  }, []);
   const [showQuotaPanel, setShowQuotaPanel] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState<AIProvider>(AIProvider.OPENAI);
+  const [failoverChain, setFailoverChainState] = useState<AIProvider[]>(getFailoverChain());
+
+  const [cassetteMode, setCassetteMode] = useState<CassetteMode>(getCassetteMode());
 
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const cassetteInputRef = useRef<HTMLInputElement>(null);
+  const campaignInputRef = useRef<HTMLInputElement>(null);
 
-  // Load saves and preferences from local storage on mount
+  // Load saves and preferences on mount; the first load also migrates older storage formats
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        setSaves(JSON.parse(stored));
-      } catch (e) {
-        console.error("Failed to parse saves", e);
-      }
-    }
-    const storedBudget = localStorage.getItem('BUDGET_THRESHOLD');
-    if (storedBudget) setBudgetThreshold(parseFloat(storedBudget));
-    
-    const storedFs = localStorage.getItem('PREF_FONT_SIZE');
-    if (storedFs) setFontSize(parseInt(storedFs));
+    loadSaves()
+      .then(loaded => {
+        setSaves(loaded);
+        return loadQuarantine().then(quarantine => {
+          setQuarantined(quarantine);
+          // Images of quarantined saves are kept in case the player repairs or exports them
+          const referenced = new Set([...referencedAssets(loaded), ...quarantinedAssets(quarantine)]);
+          evictAssets(referenced).catch(error => console.warn('Scene image cleanup failed', error));
+        });
+      })
+      .catch(e => console.error("Failed to load saves", e));
+    loadPreferences()
+      .then(preferences => {
+        setBudgetThreshold(preferences.budgetThreshold);
+        setFontSize(preferences.fontSize);
+      })
+      .catch(e => console.error("Failed to load preferences", e));
 
     const handleFsChange = () => setIsFullscreen(!!document.fullscreenElement);
     document.addEventListener('fullscreenchange', handleFsChange);
@@ -115,60 +146,180 @@ const App: React.FC = () => {
   // Sync current game state to specific save slot
   useEffect(() => {
     if (gameStarted && gameState && currentSaveId) {
-      setSaves(prevSaves => {
-        const updated = prevSaves.map(s => {
-          if (s.id === currentSaveId) {
-            // Optimization: Keep latest image, strip base64 from historical ones to save localstorage quota
-            const leanHistory = history.map((item, index) => ({
-              ...item,
-              imageUrl: index === 0 ? item.imageUrl : undefined
-            }));
-            return { 
-              ...s, 
-              gameState, 
-              history: leanHistory, 
-              chatMessages, 
-              usageStats, 
-              lastUpdated: Date.now() 
-            };
-          }
-          return s;
-        });
-
-        try {
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-        } catch (error) {
-          if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-            console.warn("Storage quota exceeded. Purging older scene images to preserve narrative state.");
-            const superLeanSaves = updated.map(s => ({
-              ...s, 
-              history: s.history.map(h => ({ ...h, imageUrl: undefined }))
-            }));
-            localStorage.setItem(STORAGE_KEY, JSON.stringify(superLeanSaves));
-          }
-        }
-        return updated;
-      });
+      const slot = saves.find(s => s.id === currentSaveId);
+      if (!slot) return;
+      // Archived images live in the asset store; only an unarchived latest image is kept inline
+      const leanHistory = history.map((item, index) => ({
+        ...item,
+        imageUrl: index === 0 && !item.imageAsset ? item.imageUrl : undefined
+      }));
+      const updated = { 
+        ...slot, 
+        gameState, 
+        history: leanHistory, 
+        chatMessages, 
+        usageStats, 
+        memory,
+        lastUpdated: Date.now() 
+      };
+      writeSave(updated).catch(error => console.error("Failed to save game", error));
+      setSaves(prevSaves => prevSaves.map(s => s.id === currentSaveId ? updated : s));
     }
-  }, [gameState, history, chatMessages, gameStarted, currentSaveId, usageStats]);
+  }, [gameState, history, chatMessages, gameStarted, currentSaveId, usageStats, memory]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages, chatLoading]);
 
-  const updateUsage = (input: number, output: number, images: number = 0, premiumImages: number = 0, provider: AIProvider = selectedProvider) => {
+  // Switching saves releases the previous save's scene images
+  useEffect(() => {
+    setAssetUrls(prev => {
+      Object.keys(prev).forEach(ref => URL.revokeObjectURL(prev[ref]));
+      return {};
+    });
+  }, [currentSaveId]);
+
+  // Reads archived scene images back from the asset store
+  useEffect(() => {
+    const missing = Array.from(new Set<string>(history.filter(item => !item.imageUrl && isAssetRef(item.imageAsset) && !assetUrls[item.imageAsset]).map(item => item.imageAsset as string)));
+    if (missing.length === 0) return;
+    Promise.all(missing.map(async ref => [ref, await getAssetUrl(ref).catch(() => undefined)] as const)).then(entries => {
+      const found = entries.filter((entry): entry is readonly [string, string] => !!entry[1]);
+      if (found.length) setAssetUrls(prev => ({ ...prev, ...Object.fromEntries(found) }));
+    });
+  }, [history]);
+
+  useEffect(() => {
+    if (showQuotaPanel) getAssetUsage().then(setAssetUsage).catch(() => setAssetUsage(null));
+  }, [showQuotaPanel]);
+
+  const updateUsage = (input: number, output: number, images: number = 0, premiumImages: number = 0, provider: AIProvider = selectedProvider, model?: string, imageSize?: string, isReroll: boolean = false) => {
     setUsageStats(prev => {
-      const newCost = calculateEstimatedCost(input, output, images, premiumImages, provider);
+      const newCost = calculateEstimatedCost(input, output, images, premiumImages, provider, model, imageSize);
       return {
         inputTokens: prev.inputTokens + input,
         outputTokens: prev.outputTokens + output,
         imageCount: prev.imageCount + images,
         premiumImageCount: prev.premiumImageCount + premiumImages,
-        estimatedCost: prev.estimatedCost + newCost
+        estimatedCost: prev.estimatedCost + newCost,
+        rerollCount: prev.rerollCount,
+        rerollCost: prev.rerollCost + (isReroll ? newCost : 0)
       };
     });
   };
 
+  // Clicking a provider appends it to the end of the chain; clicking it again takes it out
+  const toggleFailoverProvider = (provider: AIProvider) => {
+    const next = failoverChain.includes(provider)
+      ? failoverChain.filter(p => p !== provider)
+      : [...failoverChain, provider];
+    setFailoverChain(next);
+    setFailoverChainState(next);
+  };
+
+  const handleStartRecording = () => {
+    startRecording();
+    setCassetteMode('record');
+  };
+
+  const handleSaveCassette = () => {
+    const cassette = stopRecording();
+    setCassetteMode('off');
+    if (!cassette) return;
+    const blob = new Blob([JSON.stringify(cassette, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `chronicle-cassette-${cassette.createdAt}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadQuarantined = (entry: QuarantinedSave) => {
+    const blob = new Blob([entry.raw], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `chronicle-quarantined-${entry.key}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportSave = async (save: SaveSlot, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      const blob = new Blob([serializeBundle(await createBundle(save))], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = bundleFileName(save);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export campaign", error);
+      setErrorNotice({ title: 'Export failed', detail: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const handleImportCampaign = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const slot = await importBundle(await file.text(), new Set(saves.map(s => s.id)));
+      await writeSave(slot);
+      setSaves(prev => [slot, ...prev]);
+    } catch (error) {
+      console.error("Failed to import campaign", error);
+      setErrorNotice({ title: 'Import failed', detail: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const handlePublish = async (format: PublishFormat) => {
+    if (!gameState || history.length === 0) return;
+    try {
+      const title = saves.find(s => s.id === currentSaveId)?.name || `${gameState.genre} Chronicle`;
+      const book = await buildBook({ id: currentSaveId || crypto.randomUUID(), title, genre: gameState.genre, history });
+      const file = publishBook(book, format);
+      const blob = new Blob([file.data], { type: file.mimeType });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to publish story", error);
+      setErrorNotice({ title: 'Publishing failed', detail: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const handleDiscardQuarantined = async (key: string) => {
+    try {
+      await discardQuarantined(key);
+      setQuarantined(prev => prev.filter(entry => entry.key !== key));
+    } catch (error) {
+      console.error("Failed to discard quarantined save", error);
+    }
+  };
+
+  const handleLoadCassette = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      loadCassette(parseCassette(await file.text()));
+      setCassetteMode('replay');
+    } catch (error) {
+      console.error("Failed to load cassette:", error);
+    }
+  };
+
+  const handleEjectCassette = () => {
+    ejectCassette();
+    setCassetteMode('off');
+  };
+
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
       document.documentElement.requestFullscreen().catch(err => {
@@ -183,8 +334,11 @@ const App: React.FC = () => {
     setApiKeyInputs({
       [AIProvider.OPENAI]: getStoredApiKey(AIProvider.OPENAI),
       [AIProvider.GEMINI]: getStoredApiKey(AIProvider.GEMINI),
-      [AIProvider.CLAUDE]: getStoredApiKey(AIProvider.CLAUDE)
+      [AIProvider.CLAUDE]: getStoredApiKey(AIProvider.CLAUDE),
+      [AIProvider.LOCAL]: getStoredApiKey(AIProvider.LOCAL)
     });
+    setLocalSettingsInput(hasApiKey(AIProvider.LOCAL) ? getLocalModelSettings() : { baseUrl: '', model: '' });
+    setModelInputs(readModelSelections());
     setShowKeyModal(true);
   };
 
@@ -192,76 +346,143 @@ const App: React.FC = () => {
     setStoredApiKey(AIProvider.OPENAI, apiKeyInputs[AIProvider.OPENAI]);
     setStoredApiKey(AIProvider.GEMINI, apiKeyInputs[AIProvider.GEMINI]);
     setStoredApiKey(AIProvider.CLAUDE, apiKeyInputs[AIProvider.CLAUDE]);
+    setStoredApiKey(AIProvider.LOCAL, apiKeyInputs[AIProvider.LOCAL]);
+    setLocalModelSettings(localSettingsInput);
+    for (const provider of CATALOG_PROVIDERS) {
+      for (const [role, modelId] of Object.entries(modelInputs[provider] || {})) {
+        setSelectedModel(provider, role as ModelRole, modelId as string);
+      }
+    }
     setShowKeyModal(false);
   };
 
+  const selectTemplate = (id: PromptTemplateId) => {
+    setTemplateId(id);
+    setTemplateDraft(getTemplateText(id));
+  };
+
+  const handleOpenTemplateModal = () => {
+    selectTemplate(templateId);
+    setShowTemplateModal(true);
+  };
+
+  const handleSaveTemplate = () => {
+    setTemplateOverride(templateId, templateDraft);
+    setShowTemplateModal(false);
+  };
+
+  const handleResetTemplate = () => {
+    resetTemplate(templateId);
+    setTemplateDraft(DEFAULT_TEMPLATES[templateId].text);
+  };
+
   const handleError = (error: any) => {
-    if (error instanceof Error && error.message === 'API_KEY_ERROR') {
+    if (error instanceof CancelledError) {
+      // The player asked for this; callers restore their own state, so just clear the spinners
+      setLoading(false);
+      setImageLoading(false);
+      setStreamingText('');
+      return;
+    }
+    console.error("Application Error:", error);
+    if (error instanceof AuthError) {
       setShowKeyModal(true);
-    } else {
-      console.error("Application Error:", error);
     }
+    setErrorNotice(describeError(error));
     setLoading(false);
     setImageLoading(false);
     setChatLoading(false);
+    setStreamingText('');
+  };
+
+  // Stops whichever story or image request is in flight
+  const cancelGeneration = () => {
+    storyAbortRef.current?.abort();
+    imageAbortRef.current?.abort();
+  };
+
+  // Ignores stream updates that land after the player cancelled
+  const streamInto = (controller: AbortController) => (text: string) => {
+    if (!controller.signal.aborted) setStreamingText(text);
+  };
+
+  const openingPrompt = (genre: string, withCharacter: boolean) => {
+    const directives = [
+      ...(genre === '80s Sci-Fi Horror' ? [renderPrompt('retroDirectives', {})] : []),
+      ...(withCharacter ? [renderPrompt('characterRules', {})] : [])
+    ];
+    const opening = renderPrompt('openingScene', { genre, directives: directives.map(d => d.text).join('\n') });
+    return { text: opening.text, promptVersions: [opening.version, ...directives.map(d => d.version)] };
+  };
+
+  // Typed actions go through their own template, which has the model rule on whether they can happen.
+  // A choice that needed a skill check arrives already rolled; the model only narrates the outcome.
+  const advancePrompt = (state: GameState, choice: string, beforeBeat: NarrativeMemory, customAction: boolean = false, checkResult?: CheckResult) => {
+    const rules = [
+      ...(state.character ? [renderPrompt('characterRules', {})] : []),
+      ...(checkResult ? [renderPrompt('skillCheck', { check: formatCheck(checkResult), outcome: checkResult.outcome })] : [])
+    ];
+    const context = { state: JSON.stringify(state), memory: memoryContextForChain(beforeBeat, resolveProviderChain(selectedProvider, 'story')) || '(nothing yet)', rules: rules.map(r => r.text).join('\n') };
+    const prompt = customAction
+      ? renderPrompt('playerAction', { ...context, action: choice })
+      : renderPrompt('advanceStory', { ...context, choice });
+    return { text: prompt.text, promptVersions: [prompt.version, ...rules.map(r => r.version)] };
   };
 
   const startGame = async (genreChoice?: string) => {
+    const previous = { gameState, currentSaveId, diceSeed, usageStats, memory };
+    const controller = new AbortController();
+    storyAbortRef.current = controller;
     setLoading(true);
+    setErrorNotice(null);
     setGameStarted(true);
     const genre = genreChoice || customGenre || "Fantasy";
     const newSaveId = crypto.randomUUID();
     const saveName = `${genre} - ${new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}`;
+    const newDiceSeed = createSeed();
     setCurrentSaveId(newSaveId);
+    setDiceSeed(newDiceSeed);
     setUsageStats(initialUsageStats);
+    setMemory(EMPTY_MEMORY);
+    setReviewingTakes(false);
 
-    let systemDirectives = "";
-    if (genre === '80s Sci-Fi Horror') {
-      systemDirectives = "Visual style MUST be '8-bit pixel art, Atari 2600 aesthetic, grainy CRT monitor effect, retro 1980s VHS quality'. Narrative: 1980s mystery, analog tech, synthesizer atmosphere.";
-    }
-
-    const prompt = `Start a new choose-your-own-adventure in the "${genre}" genre. ${systemDirectives} 
-
-IMPORTANT: Return an engaging, specific opening scene with vivid details. Do NOT use generic phrases like "The story begins..." Instead, start directly with the action and atmosphere.
-
-Return output as JSON matching the GameState schema with these fields:
-- storyText: A compelling opening scene (3-4 sentences)
-- choices: 2-3 specific action choices
-- inventory: Array of starting items (can be empty)
-- currentQuest: The main objective
-- visualPrompt: Brief description for image generation
-- worldStyle: "${genre}" style
-- genre: "${genre}"`;
+    const { text: openingText, promptVersions } = openingPrompt(genre, characterMode);
     
     try {
-      console.log('Starting game with provider:', selectedProvider); // Debug log
-      const response = await generateStoryBeat(prompt, selectedProvider);
-      console.log('Initial gameState:', response.data); // Debug log
-      console.log('Story text:', response.data.storyText); // Debug log
-      setGameState(response.data);
-      updateUsage(response.usage.inputTokens, response.usage.outputTokens, 0, 0, selectedProvider);
+      const response = await generateStoryBeatStream(openingText, selectedProvider, streamInto(controller), { signal: controller.signal });
+      storyAbortRef.current = null;
+      const { state: reply, notes } = splitMemoryNotes(response.data);
+      const { state, diff } = settleInventory(settleQuests(reply, undefined, 0), undefined, 0);
+      setGameState(state);
+      updateUsage(response.usage.inputTokens, response.usage.outputTokens, 0, 0, response.usage.provider, response.usage.model);
       
       const newSlot: SaveSlot = {
         id: newSaveId,
+        schemaVersion: SAVE_SCHEMA_VERSION,
         name: saveName,
-        genre: response.data.genre,
+        genre: state.genre,
         lastUpdated: Date.now(),
-        gameState: response.data,
+        gameState: state,
         history: [],
         chatMessages: [],
-        usageStats: initialUsageStats
+        usageStats: initialUsageStats,
+        memory: EMPTY_MEMORY,
+        diceSeed: newDiceSeed
       };
       setSaves(prev => [newSlot, ...prev]);
-      
-      if (!textOnlyMode) {
-        // Generate image but don't add story to history - let main UI show it
-        await updateImage(response.data, 'The Beginning');
-        setLoading(false); // Ensure loading is false
-      } else {
-        setHistory(prev => [{ text: response.data.storyText, choice: 'Arrival', state: response.data }, ...prev]);
-        setLoading(false);
-      }
+      writeSave(newSlot).catch(error => console.error("Failed to save game", error));
+      setStreamingText('');
+      setLoading(false);
+      await commitBeat(state, 'The Beginning', promptVersions, notes, { inventoryDiff: diff });
     } catch (error) {
+      if (error instanceof CancelledError) {
+        setGameStarted(false);
+        setGameState(previous.gameState);
+        setCurrentSaveId(previous.currentSaveId);
+        setDiceSeed(previous.diceSeed);
+        setUsageStats(previous.usageStats);
+        setMemory(previous.memory);
+      }
       handleError(error);
     }
   };
@@ -271,75 +492,198 @@ Return output as JSON matching the GameState schema with these fields:
     setHistory(slot.history);
     setChatMessages(slot.chatMessages);
     setUsageStats(slot.usageStats || initialUsageStats);
+    setMemory(slot.memory || rebuildMemory(slot.history));
     setCurrentSaveId(slot.id);
+    setDiceSeed(slot.diceSeed);
     setGameStarted(true);
+    setReviewingTakes(false);
+    latestBeatRef.current = null;
   };
 
   const deleteSave = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    setSaves(prev => {
-      const filtered = prev.filter(s => s.id !== id);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
-      return filtered;
-    });
+    const filtered = saves.filter(s => s.id !== id);
+    setSaves(prev => prev.filter(s => s.id !== id));
+    removeSave(id).catch(error => console.error("Failed to delete save", error));
+    const referenced = new Set([...referencedAssets(filtered, currentSaveId === id ? [] : history), ...quarantinedAssets(quarantined)]);
+    evictAssets(referenced).catch(error => console.warn('Scene image cleanup failed', error));
     if (currentSaveId === id) {
       setGameStarted(false);
       setGameState(null);
       setHistory([]);
       setChatMessages([]);
       setUsageStats(initialUsageStats);
+      setMemory(EMPTY_MEMORY);
       setCurrentSaveId(null);
+      setDiceSeed(null);
     }
   };
 
-  const updateImage = async (state: GameState, choiceMade: string) => {
-    if (textOnlyMode) {
-       setLoading(false);
-       return;
+  // Returns the story to an earlier beat; everything after it is dropped from this save
+  const rewindTo = (position: number) => {
+    if (loading) return;
+    const rewound = rewindStory(history, memory, position);
+    if (!rewound) return;
+    setGameState(rewound.gameState);
+    setHistory(rewound.history);
+    setMemory(rewound.memory);
+    setReviewingTakes(false);
+    latestBeatRef.current = null;
+  };
+
+  // Starts a new save that shares this one's story up to the chosen beat
+  const forkFrom = (position: number) => {
+    const current = saves.find(s => s.id === currentSaveId);
+    if (loading || !current || !gameState) return;
+    const fork = forkSave({ ...current, gameState, history, chatMessages, memory }, position, crypto.randomUUID());
+    if (!fork) return;
+    setSaves(prev => [fork, ...prev]);
+    writeSave(fork).catch(error => console.error("Failed to save game", error));
+    loadSave(fork);
+  };
+
+  // Records the beat in history straight away; the scene image is attached once it arrives
+  const commitBeat = async (state: GameState, choiceMade: string, promptVersions: string[], notes?: MemoryNotes, details: Pick<GameHistoryItem, 'customAction' | 'actionCheck' | 'inventoryDiff' | 'checkResult'> = {}) => {
+    setHistory(prev => [{ text: state.storyText, choice: choiceMade, state, promptVersions, ...details }, ...prev]);
+    setMemory(prev => {
+      latestBeatRef.current = { memoryBefore: prev, notes };
+      return rememberBeat(prev, state.storyText, notes);
+    });
+    if (!textOnlyMode && getProviderCapabilities(selectedProvider).image) {
+      await updateImage(state);
     }
+  };
+
+  const updateImage = async (state: GameState, isReroll: boolean = false) => {
+    const controller = new AbortController();
+    imageAbortRef.current = controller;
     setImageLoading(true);
     try {
-      const response = await generateImage(state.visualPrompt, state.worldStyle, selectedProvider, imageQuality);
-      console.log('Image response:', response); // Debug log
+      const response = await generateImage(state.visualPrompt, state.worldStyle, selectedProvider, imageQuality, {
+        signal: controller.signal,
+        format: { resolution: imageSize, aspectRatio }
+      });
       if (response.data) {
-        // Add to history for all cases after initial setup
-        setHistory(prev => [{ text: state.storyText, choice: choiceMade, imageUrl: response.data, state }, ...prev]);
-        setLoading(false);
+        const imageUrl = response.data;
+        setHistory(prev => prev.map(item => attachImage(item, state, { imageUrl })));
+        storeImage(imageUrl)
+          .then(imageAsset => setHistory(prev => prev.map(item => attachImage(item, state, { imageAsset }))))
+          .catch(error => console.warn('Could not archive scene image', error));
         updateUsage(
           response.usage.inputTokens, 
           response.usage.outputTokens, 
-          useHighRes ? 0 : 1, 
-          useHighRes ? 1 : 0,
-          selectedProvider
+          response.usage.isPremium ? 0 : 1, 
+          response.usage.isPremium ? 1 : 0,
+          response.usage.provider,
+          response.usage.model,
+          response.usage.imageSize,
+          isReroll
         );
       }
     } catch (error: any) {
       handleError(error);
     } finally {
+      if (imageAbortRef.current === controller) imageAbortRef.current = null;
       setImageLoading(false);
-      setLoading(false);
     }
   };
 
-  const makeChoice = async (choice: string) => {
+  const makeChoice = async (choice: string, customAction: boolean = false) => {
     if (!gameState) return;
+    const previousState = gameState;
+    const controller = new AbortController();
+    storyAbortRef.current = controller;
     setLoading(true);
-    const prompt = `Game State: ${JSON.stringify(gameState)}. Choice: "${choice}". Advance the plot. Maintain the genre consistency. Return new state in JSON.`;
+    setErrorNotice(null);
+    setReviewingTakes(false);
+    // Seeded by the save and the beat being written, so the same beat always rolls the same
+    const skillCheck = customAction ? undefined : checkFor(gameState, choice);
+    const checkResult = skillCheck && diceSeed !== null && gameState.character
+      ? resolveCheck(skillCheck, gameState.character, diceSeed, history.length)
+      : undefined;
+    const prompt = advancePrompt(gameState, choice, memory, customAction, checkResult);
     try {
-      const response = await generateStoryBeat(prompt, selectedProvider);
-      setGameState(response.data);
-      updateUsage(response.usage.inputTokens, response.usage.outputTokens, 0, 0, selectedProvider);
-      if (!textOnlyMode) {
-        await updateImage(response.data, choice);
-      } else {
-        setHistory(prev => [{ text: response.data.storyText, choice: choice, state: response.data }, ...prev]);
-        setLoading(false);
+      const response = await generateStoryBeatStream(prompt.text, selectedProvider, streamInto(controller), { signal: controller.signal });
+      storyAbortRef.current = null;
+      const { state: reply, check } = splitActionCheck(response.data);
+      const { state: noted, notes } = splitMemoryNotes(reply);
+      const settled = settleQuests(settleCharacter(noted, previousState.character), previousState.quests, history.length);
+      const { state, diff } = settleInventory(settled, previousState.inventory, history.length);
+      setGameState(state);
+      updateUsage(response.usage.inputTokens, response.usage.outputTokens, 0, 0, response.usage.provider, response.usage.model);
+      setStreamingText('');
+      setLoading(false);
+      await commitBeat(state, choice, prompt.promptVersions, notes, { ...(customAction ? { customAction, actionCheck: check } : {}), inventoryDiff: diff, checkResult });
+    } catch (error) {
+      if (error instanceof CancelledError) setGameState(previousState);
+      handleError(error);
+    }
+  };
+
+  // Generates another take of the latest beat from the same parent state and choice
+  const rerollBeat = async () => {
+    const latest = history[0];
+    if (!gameState || !latest?.state || loading) return;
+    const parent = history[1]?.state;
+    // After a reload only the recaps of earlier beats can be recovered
+    const beforeBeat = latestBeatRef.current?.memoryBefore || rewindMemory(memory, history.slice(1));
+    const previous = { gameState, history, memory };
+    const controller = new AbortController();
+    storyAbortRef.current = controller;
+    setLoading(true);
+    setErrorNotice(null);
+    const prompt = parent
+      ? advancePrompt(parent, latest.choice, beforeBeat, latest.customAction, latest.checkResult)
+      : openingPrompt(latest.state.genre || gameState.genre, !!latest.state.character);
+    try {
+      const response = await generateStoryBeatStream(prompt.text, selectedProvider, streamInto(controller), { signal: controller.signal });
+      storyAbortRef.current = null;
+      const { state: reply, check } = splitActionCheck(response.data);
+      const { state: noted, notes } = splitMemoryNotes(reply);
+      const settled = settleQuests(settleCharacter(noted, parent?.character), parent?.quests, history.length - 1);
+      const { state, diff: inventoryDiff } = settleInventory(settled, parent?.inventory, history.length - 1);
+      const originalNotes = latestBeatRef.current?.notes;
+      const actionCheck = latest.customAction ? check : undefined;
+      setGameState(state);
+      setHistory(prev => [addTake(prev[0], { text: state.storyText, state, promptVersions: prompt.promptVersions, notes, actionCheck, inventoryDiff }, originalNotes), ...prev.slice(1)]);
+      latestBeatRef.current = { memoryBefore: beforeBeat, notes };
+      setMemory(rememberBeat(beforeBeat, state.storyText, notes));
+      updateUsage(response.usage.inputTokens, response.usage.outputTokens, 0, 0, response.usage.provider, response.usage.model, undefined, true);
+      setUsageStats(prev => ({ ...prev, rerollCount: prev.rerollCount + 1 }));
+      setReviewingTakes(true);
+      setStreamingText('');
+      setLoading(false);
+      if (!textOnlyMode && getProviderCapabilities(selectedProvider).image) {
+        await updateImage(state, true);
       }
     } catch (error) {
+      if (error instanceof CancelledError) {
+        setGameState(previous.gameState);
+        setHistory(previous.history);
+        setMemory(previous.memory);
+      }
       handleError(error);
     }
   };
 
+  const showTake = (index: number) => {
+    const latest = history[0];
+    const take = latest?.takes?.[index];
+    if (!take || loading) return;
+    const beforeBeat = latestBeatRef.current?.memoryBefore || rewindMemory(memory, history.slice(1));
+    latestBeatRef.current = { memoryBefore: beforeBeat, notes: take.notes };
+    setHistory(prev => [selectTake(prev[0], index), ...prev.slice(1)]);
+    setGameState(take.state);
+    setMemory(rememberBeat(beforeBeat, take.text, take.notes));
+  };
+
+  const submitAction = () => {
+    const action = normalizeAction(actionInput);
+    if (!action || loading || reviewingTakes) return;
+    setActionInput('');
+    makeChoice(action, true);
+  };
+
   const sendChatMessage = async () => {
     if (!chatInput.trim() || !gameState || chatLoading) return;
     const userMsg = chatInput;
@@ -347,9 +691,13 @@ Return output as JSON matching the GameState schema with these fields:
     setChatMessages(prev => [...prev, { role: 'user', text: userMsg }]);
     setChatLoading(true);
     try {
-      const response = await getChatResponse(userMsg, gameState, selectedProvider);
+      const response = await getChatResponse(userMsg, gameState, selectedProvider, {
+        history: chatMessages,
+        recentBeats: history,
+        toolContext: { gameState, history, chatMessages }
+      });
       setChatMessages(prev => [...prev, { role: 'model', text: response.data }]);
-      updateUsage(response.usage.inputTokens, response.usage.outputTokens, 0, 0, selectedProvider);
+      updateUsage(response.usage.inputTokens, response.usage.outputTokens, 0, 0, response.usage.provider, response.usage.model);
     } catch (error) {
       handleError(error);
     } finally {
@@ -357,6 +705,8 @@ Return output as JSON matching the GameState schema with these fields:
     }
   };
 
+  const sceneImageUrl = (item?: GameHistoryItem) => item?.imageUrl || (item?.imageAsset ? assetUrls[item.imageAsset] : undefined);
+
   const applyTextCase = (text: string | any) => {
     if (typeof text !== 'string') {
       return String(text || '');
@@ -366,15 +716,138 @@ Return output as JSON matching the GameState schema with these fields:
     return text;
   };
 
-  const getGenreFontClass = () => {
-    if (!gameState || !gameState.genre) return 'font-inter';
-    const genre = gameState.genre.toLowerCase();
-    if (genre.includes('fantasy')) return 'font-fantasy';
-    if (genre.includes('80s') || genre.includes('horror')) return 'font-80s text-xs';
-    if (genre.includes('cyberpunk') || genre.includes('steampunk')) return 'font-data';
-    return 'font-inter';
-  };
+  const getGenreFontClass = () => genreFontClass(gameState?.genre);
+
+  const providerCapabilities = getProviderCapabilities(selectedProvider);
+
+  const currentTimeline = currentSaveId ? timelineOf(saves, currentSaveId) : undefined;
+  const renderBranch = (node: BranchNode, depth: number): React.ReactNode => (
+    <div key={node.slot.id}>
+      <button
+        onClick={() => node.slot.id !== currentSaveId && loadSave(node.slot)}
+        disabled={loading}
+        style={{ paddingLeft: `${depth * 12 + 8}px` }}
+        className={`w-full text-left pr-2 py-1 rounded-lg text-[10px] font-bold truncate transition-all disabled:opacity-50 ${node.slot.id === currentSaveId ? (is80sMode ? 'bg-rose-950 text-rose-300' : 'bg-indigo-600/20 text-indigo-300') : 'text-slate-500 hover:text-slate-300'}`}
+      >
+        {depth > 0 && <span className="opacity-60">↳ beat {node.slot.branch!.beatIndex + 1} · </span>}{node.slot.name}
+      </button>
+      {node.children.map(child => renderBranch(child, depth + 1))}
+    </div>
+  );
+
+  // Options the provider has no model for are shown disabled
+  const imageCapabilities = getImageCapabilities(selectedProvider);
+  const imageFormatControls = (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">RESOLUTION</span>
+        <div className="flex gap-1">
+          {[ImageSize.K1, ImageSize.K2, ImageSize.K4].map(size => (
+            <button
+              key={size}
+              onClick={() => setImageSize(size)}
+              disabled={!imageCapabilities.resolutions.includes(size)}
+              className={`px-2 py-1 text-[9px] rounded-lg border font-black transition-all disabled:opacity-30 disabled:cursor-not-allowed ${imageSize === size ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-800 text-slate-600 bg-slate-900/40 hover:text-slate-400'}`}
+            >
+              {size}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">ASPECT</span>
+        <div className="flex gap-1">
+          {(['1:1', '16:9', '9:16'] as AspectRatio[]).map(ratio => (
+            <button
+              key={ratio}
+              onClick={() => setAspectRatio(ratio)}
+              disabled={!imageCapabilities.aspectRatios.includes(ratio)}
+              className={`px-2 py-1 text-[9px] rounded-lg border font-black transition-all disabled:opacity-30 disabled:cursor-not-allowed ${aspectRatio === ratio ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-800 text-slate-600 bg-slate-900/40 hover:text-slate-400'}`}
+            >
+              {ratio}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  const templateUnknownVariables = findUnknownVariables(templateId, templateDraft);
+  const templateModal = showTemplateModal && (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-8 bg-slate-950/95 backdrop-blur-2xl animate-in fade-in">
+      <div className="bg-slate-900 border border-slate-800 max-w-3xl w-full max-h-[90vh] overflow-y-auto p-10 rounded-[3rem] shadow-[0_0_100px_rgba(0,0,0,0.8)] transform animate-in zoom-in-95">
+        <div className="mb-8">
+          <h3 className="text-2xl font-black text-slate-100 tracking-tight">Prompt Templates</h3>
+          <p className="text-slate-400 text-sm">Edit the prompts sent to the AI. Each beat records the template version that wrote it.</p>
+        </div>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {TEMPLATE_IDS.map(id => (
+            <button
+              key={id}
+              onClick={() => selectTemplate(id)}
+              className={`px-3 py-2 text-[10px] rounded-lg border font-black uppercase tracking-wider transition-all ${templateId === id ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-700 text-slate-500 bg-slate-900/60 hover:text-slate-300'}`}
+            >
+              {DEFAULT_TEMPLATES[id].label}{isTemplateOverridden(id) ? ' •' : ''}
+            </button>
+          ))}
+        </div>
+        <div className="flex justify-between items-center mb-2">
+          <p className="text-xs text-slate-500">{DEFAULT_TEMPLATES[templateId].description}</p>
+          <span className="text-[10px] font-mono text-slate-500">{getTemplateVersion(templateId)}</span>
+        </div>
+        <textarea
+          value={templateDraft}
+          onChange={(e) => setTemplateDraft(e.target.value)}
+          rows={14}
+          spellCheck={false}
+          className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-xl text-slate-200 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 font-mono text-xs leading-relaxed"
+        />
+        <div className="flex flex-wrap gap-2 mt-3">
+          {DEFAULT_TEMPLATES[templateId].variables.map(name => (
+            <code key={String(name)} className="px-2 py-1 text-[10px] rounded-lg bg-slate-950 border border-slate-800 text-indigo-300">{`{{${String(name)}}}`}</code>
+          ))}
+        </div>
+        {templateUnknownVariables.length > 0 && (
+          <p className="text-xs text-rose-400 mt-3">Unknown variables: {templateUnknownVariables.join(', ')}</p>
+        )}
+        <div className="flex gap-3 mt-8">
+          <button onClick={handleResetTemplate} className="flex-1 py-4 bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold uppercase tracking-wider text-xs rounded-2xl transition-all">Reset to Default</button>
+          <button onClick={() => setShowTemplateModal(false)} className="flex-1 py-4 bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold uppercase tracking-wider text-xs rounded-2xl transition-all">Cancel</button>
+          <button onClick={handleSaveTemplate} disabled={templateUnknownVariables.length > 0} className="flex-1 py-4 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold uppercase tracking-wider text-xs rounded-2xl transition-all shadow-lg shadow-indigo-950/40">Save Template</button>
+        </div>
+      </div>
+    </div>
+  );
 
+  // Shared by both API key modals
+  const modelPickers = (
+    <div className="pt-5 border-t border-slate-800">
+      <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Models</label>
+      <div className="space-y-3">
+        {CATALOG_PROVIDERS.map(provider => (
+          <div key={provider} className="flex items-center gap-3">
+            <span className="w-20 text-xs font-bold text-slate-300">{getProviderAdapter(provider).label}</span>
+            {MODEL_ROLES.filter(role => getModelsFor(provider, role).length > 0).map(role => (
+              <select
+                key={role}
+                aria-label={`${getProviderAdapter(provider).label} ${MODEL_ROLE_LABELS[role]} model`}
+                title={MODEL_ROLE_LABELS[role]}
+                value={modelInputs[provider]?.[role] || ''}
+                onChange={(e) => setModelInputs(prev => ({ ...prev, [provider]: { ...prev[provider], [role]: e.target.value } }))}
+                className="flex-1 min-w-0 px-2 py-2 bg-slate-800 border border-slate-700 rounded-xl text-slate-200 text-xs focus:outline-none focus:border-indigo-500"
+              >
+                {getModelsFor(provider, role).map(model => (
+                  <option key={model.id} value={model.id}>{MODEL_ROLE_LABELS[role]}: {model.label}</option>
+                ))}
+              </select>
+            ))}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 mt-1">Cost estimates use the price of whichever model answered</p>
+    </div>
+  );
+  const isStreaming = loading && streamingText.length > 0;
   const is80sMode = gameState?.genre === '80s Sci-Fi Horror';
   const isBudgetExceeded = usageStats.estimatedCost >= budgetThreshold;
   const isBudgetWarning = usageStats.estimatedCost >= budgetThreshold * 0.8;
@@ -397,22 +870,43 @@ Return output as JSON matching the GameState schema with these fields:
                 <div className="flex justify-between items-center">
                   <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">AI PROVIDER</span>
                   <div className="flex gap-2">
-                    {[
-                      { val: AIProvider.GEMINI, lab: 'Gemini' },
-                      { val: AIProvider.OPENAI, lab: 'OpenAI' },
-                      { val: AIProvider.CLAUDE, lab: 'Claude' }
-                    ].map(provider => (
+                    {getRegisteredProviders().map(provider => (
                       <button 
-                        key={provider.val} 
-                        onClick={() => setSelectedProvider(provider.val)} 
-                        className={`px-3 py-2 text-[10px] rounded-lg border font-black transition-all ${selectedProvider === provider.val ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-700 text-slate-500 bg-slate-900/60 hover:text-slate-300'} ${!hasApiKey(provider.val) ? 'opacity-50' : ''}`}
+                        key={provider.id} 
+                        onClick={() => setSelectedProvider(provider.id)} 
+                        className={`px-3 py-2 text-[10px] rounded-lg border font-black transition-all ${selectedProvider === provider.id ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-700 text-slate-500 bg-slate-900/60 hover:text-slate-300'} ${!hasApiKey(provider.id) ? 'opacity-50' : ''}`}
                       >
-                        {provider.lab}
-                        {hasApiKey(provider.val) && <span className="ml-1 text-emerald-400">✓</span>}
+                        {provider.label}
+                        {hasApiKey(provider.id) && <span className="ml-1 text-emerald-400">✓</span>}
                       </button>
                     ))}
                   </div>
                 </div>
+                {!providerCapabilities.image && (
+                  <p className="text-xs text-slate-500 mt-3">This provider writes text only. Scenes will not be illustrated.</p>
+                )}
+                <div className="flex justify-between items-center mt-5 pt-5 border-t border-slate-800/60">
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">FALLBACK CHAIN</span>
+                  <div className="flex gap-2">
+                    {getRegisteredProviders().filter(provider => provider.id !== selectedProvider).map(provider => {
+                      const position = failoverChain.indexOf(provider.id);
+                      return (
+                        <button 
+                          key={provider.id} 
+                          onClick={() => toggleFailoverProvider(provider.id)} 
+                          title={hasApiKey(provider.id) ? undefined : 'Skipped until a key is configured'}
+                          className={`px-3 py-2 text-[10px] rounded-lg border font-black transition-all ${position >= 0 ? 'bg-slate-800 border-indigo-500/60 text-indigo-300' : 'border-slate-700 text-slate-500 bg-slate-900/60 hover:text-slate-300'} ${!hasApiKey(provider.id) ? 'opacity-50' : ''}`}
+                        >
+                          {position >= 0 && <span className="mr-1 text-indigo-400">{position + 1}.</span>}
+                          {provider.label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+                {failoverChain.filter(p => p !== selectedProvider).length > 0 && (
+                  <p className="text-xs text-slate-500 mt-3">If {getProviderAdapter(selectedProvider).label} fails, requests move down the chain: {failoverChain.filter(p => p !== selectedProvider).map(p => getProviderAdapter(p).label).join(' → ')}.</p>
+                )}
               </div>
             </div>
             <div className="mb-12">
@@ -431,30 +925,73 @@ Return output as JSON matching the GameState schema with these fields:
                   <p className="text-xs text-amber-400/80 mt-3">⚠️ No API key configured for {selectedProvider}. Click to add your key.</p>
                 )}
               </button>
+              <button 
+                onClick={handleOpenTemplateModal}
+                className="w-full mt-4 bg-slate-950/40 border border-slate-800/60 rounded-2xl p-6 hover:bg-slate-800/40 hover:border-indigo-500/50 transition-all group text-left"
+              >
+                <div className="flex justify-between items-center">
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 group-hover:text-slate-300">PROMPT TEMPLATES</span>
+                  <span className="text-xs text-slate-500 group-hover:text-indigo-400 transition-colors">Edit →</span>
+                </div>
+              </button>
             </div>
+            {providerCapabilities.image && (
+              <div className="mb-12">
+                <div className="bg-slate-950/40 border border-slate-800/60 rounded-2xl p-6">
+                  <div className="flex justify-between items-center">
+                    <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">IMAGE QUALITY</span>
+                    <div className="flex gap-2">
+                      {[
+                        { val: 'standard' as const, lab: 'Standard' },
+                        { val: 'fast' as const, lab: 'Fast' }
+                      ].map(quality => (
+                        <button 
+                          key={quality.val} 
+                          onClick={() => setImageQuality(quality.val)} 
+                          className={`px-3 py-2 text-[10px] rounded-lg border font-black transition-all ${imageQuality === quality.val ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-700 text-slate-500 bg-slate-900/60 hover:text-slate-300'}`}
+                        >
+                          {quality.lab}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="mt-4 pt-4 border-t border-slate-800/60">{imageFormatControls}</div>
+                </div>
+              </div>
+            )}
             <div className="mb-12">
               <div className="bg-slate-950/40 border border-slate-800/60 rounded-2xl p-6">
                 <div className="flex justify-between items-center">
-                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">IMAGE QUALITY</span>
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">CASSETTE</span>
                   <div className="flex gap-2">
-                    {[
-                      { val: 'standard' as const, lab: 'Standard' },
-                      { val: 'fast' as const, lab: 'Fast' }
-                    ].map(quality => (
-                      <button 
-                        key={quality.val} 
-                        onClick={() => setImageQuality(quality.val)} 
-                        className={`px-3 py-2 text-[10px] rounded-lg border font-black transition-all ${imageQuality === quality.val ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-700 text-slate-500 bg-slate-900/60 hover:text-slate-300'}`}
-                      >
-                        {quality.lab}
-                      </button>
-                    ))}
+                    {cassetteMode === 'off' && (
+                      <>
+                        <button onClick={handleStartRecording} className="px-3 py-2 text-[10px] rounded-lg border font-black transition-all border-slate-700 text-slate-500 bg-slate-900/60 hover:text-rose-400">● Record</button>
+                        <button onClick={() => cassetteInputRef.current?.click()} className="px-3 py-2 text-[10px] rounded-lg border font-black transition-all border-slate-700 text-slate-500 bg-slate-900/60 hover:text-slate-300">Replay File</button>
+                      </>
+                    )}
+                    {cassetteMode === 'record' && (
+                      <button onClick={handleSaveCassette} className="px-3 py-2 text-[10px] rounded-lg border font-black transition-all bg-rose-600 border-rose-500 text-white">■ Stop &amp; Save</button>
+                    )}
+                    {cassetteMode === 'replay' && (
+                      <button onClick={handleEjectCassette} className="px-3 py-2 text-[10px] rounded-lg border font-black transition-all bg-indigo-600 border-indigo-500 text-white">⏏ Eject</button>
+                    )}
                   </div>
                 </div>
+                {cassetteMode === 'record' && <p className="text-xs text-rose-400/80 mt-3">Recording every prompt and response in this session.</p>}
+                {cassetteMode === 'replay' && <p className="text-xs text-indigo-300/80 mt-3">Replaying from cassette. No network calls will be made.</p>}
+                <input ref={cassetteInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleLoadCassette} />
               </div>
             </div>
             <div className="space-y-8">
               <label className="text-xs font-black uppercase tracking-[0.3em] text-slate-500 block mb-2">Initialize Thread Genre</label>
+              <label className="flex items-center justify-between p-4 rounded-2xl bg-slate-950/40 border border-slate-800/50 cursor-pointer">
+                <span>
+                  <span className="block text-xs font-black uppercase tracking-widest text-slate-300">Character sheet & dice</span>
+                  <span className="block text-[10px] text-slate-500 mt-1">Risky choices are settled by a d20 roll the story has to follow</span>
+                </span>
+                <input type="checkbox" checked={characterMode} onChange={(e) => setCharacterMode(e.target.checked)} className="w-4 h-4 rounded-lg border-slate-700 bg-slate-900 text-indigo-600 focus:ring-0 cursor-pointer" />
+              </label>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
                 {[
                   { id: "High Fantasy", label: "⚔️ High Fantasy", color: "hover:bg-amber-900/10 hover:border-amber-700/40" },
@@ -478,6 +1015,8 @@ Return output as JSON matching the GameState schema with these fields:
             <h2 className="text-xs font-black uppercase tracking-[0.4em] text-slate-500 mb-10 flex items-center gap-4">
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
               Archives
+              <button onClick={() => campaignInputRef.current?.click()} className="ml-auto px-3 py-2 text-[10px] rounded-lg border font-black tracking-widest transition-all border-slate-700 text-slate-500 bg-slate-900/60 hover:text-slate-300">Import</button>
+              <input ref={campaignInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportCampaign} />
             </h2>
             <div className="flex-1 overflow-y-auto space-y-6 pr-4 custom-scrollbar">
               {saves.length === 0 && (
@@ -492,18 +1031,40 @@ Return output as JSON matching the GameState schema with these fields:
                       <h3 className="font-black text-slate-100 text-sm mb-1 truncate max-w-[150px]">{save.name}</h3>
                       <p className="text-[10px] text-indigo-400 font-black uppercase tracking-[0.2em]">{save.genre}</p>
                     </div>
-                    <button onClick={(e) => deleteSave(save.id, e)} className="opacity-0 group-hover:opacity-100 p-2 text-slate-600 hover:text-rose-400 transition-all"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"></path></svg></button>
+                    <div className="flex">
+                      <button onClick={(e) => handleExportSave(save, e)} title="Export campaign" className="opacity-0 group-hover:opacity-100 p-2 text-slate-600 hover:text-indigo-400 transition-all"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg></button>
+                      <button onClick={(e) => deleteSave(save.id, e)} className="opacity-0 group-hover:opacity-100 p-2 text-slate-600 hover:text-rose-400 transition-all"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"></path></svg></button>
+                    </div>
                   </div>
                   <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest">{new Date(save.lastUpdated).toLocaleDateString()}</p>
                 </div>
               ))}
+              {quarantined.length > 0 && (
+                <div className="pt-6 border-t border-slate-800/60 space-y-4">
+                  <p className="text-[10px] text-rose-400 font-black uppercase tracking-[0.3em]">Quarantined ({quarantined.length})</p>
+                  <p className="text-[10px] text-slate-500 leading-relaxed">These saves could not be loaded. Download a copy before discarding them.</p>
+                  {quarantined.map(entry => (
+                    <div key={entry.key} className="bg-slate-950/60 p-4 rounded-2xl border border-rose-900/40 space-y-2">
+                      <p className="text-xs font-black text-slate-300 truncate">{entry.key}</p>
+                      <p className="text-[10px] text-rose-300/80 whitespace-pre-line">{entry.reason}</p>
+                      <div className="flex items-center justify-between">
+                        <span className="text-[10px] text-slate-600 font-bold uppercase tracking-widest">{new Date(entry.quarantinedAt).toLocaleDateString()}</span>
+                        <div className="flex gap-2">
+                          <button onClick={() => handleDownloadQuarantined(entry)} className="px-2 py-1 text-[9px] rounded-lg border font-black transition-all border-slate-800 text-slate-400 bg-slate-900/40 hover:text-slate-200">DOWNLOAD</button>
+                          <button onClick={() => handleDiscardQuarantined(entry.key)} className="px-2 py-1 text-[9px] rounded-lg border font-black transition-all border-rose-900/60 text-rose-400 bg-slate-900/40 hover:text-rose-200">DISCARD</button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         </div>
         
         {showKeyModal && (
           <div className="fixed inset-0 z-[110] flex items-center justify-center p-8 bg-slate-950/95 backdrop-blur-2xl animate-in fade-in">
-            <div className="bg-slate-900 border border-slate-800 max-w-xl w-full p-10 rounded-[3rem] shadow-[0_0_100px_rgba(0,0,0,0.8)] transform animate-in zoom-in-95">
+            <div className="bg-slate-900 border border-slate-800 max-w-xl w-full max-h-[90vh] overflow-y-auto p-10 rounded-[3rem] shadow-[0_0_100px_rgba(0,0,0,0.8)] transform animate-in zoom-in-95">
               <div className="flex items-center gap-4 mb-8">
                 <div className="w-14 h-14 bg-indigo-600/20 rounded-2xl flex items-center justify-center border border-indigo-500/30">
                   <svg className="w-7 h-7 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"></path></svg>
@@ -550,6 +1111,36 @@ Return output as JSON matching the GameState schema with these fields:
                   />
                   <p className="text-xs text-slate-500 mt-1">Alternative provider (text only, no images)</p>
                 </div>
+
+                <div className="pt-5 border-t border-slate-800">
+                  <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Local Model Server</label>
+                  <input
+                    type="text"
+                    value={localSettingsInput.baseUrl}
+                    onChange={(e) => setLocalSettingsInput(prev => ({ ...prev, baseUrl: e.target.value }))}
+                    placeholder={DEFAULT_LOCAL_BASE_URL}
+                    className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-xl text-slate-200 placeholder-slate-500 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 font-mono text-sm"
+                  />
+                  <div className="flex gap-3 mt-3">
+                    <input
+                      type="text"
+                      value={localSettingsInput.model}
+                      onChange={(e) => setLocalSettingsInput(prev => ({ ...prev, model: e.target.value }))}
+                      placeholder={DEFAULT_LOCAL_MODEL}
+                      className="flex-1 px-4 py-3 bg-slate-800 border border-slate-700 rounded-xl text-slate-200 placeholder-slate-500 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 font-mono text-sm"
+                    />
+                    <input
+                      type="password"
+                      value={apiKeyInputs[AIProvider.LOCAL]}
+                      onChange={(e) => setApiKeyInputs(prev => ({ ...prev, [AIProvider.LOCAL]: e.target.value }))}
+                      placeholder="Key (optional)"
+                      className="flex-1 px-4 py-3 bg-slate-800 border border-slate-700 rounded-xl text-slate-200 placeholder-slate-500 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 font-mono text-sm"
+                    />
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">Ollama, llama.cpp or LM Studio base URL and model name. Works offline, text only</p>
+                </div>
+
+                {modelPickers}
               </div>
               
               <div className="flex gap-3">
@@ -571,6 +1162,19 @@ Return output as JSON matching the GameState schema with these fields:
             </div>
           </div>
         )}
+
+        {templateModal}
+
+        {errorNotice && (
+          <div role="alert" className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[120] max-w-lg w-[calc(100%-4rem)] bg-slate-900 border border-rose-800/60 rounded-3xl shadow-2xl p-6 flex items-start gap-4 animate-in fade-in">
+            <div className="w-10 h-10 flex-shrink-0 rounded-2xl bg-rose-900/30 border border-rose-800/50 flex items-center justify-center text-rose-400 font-black">!</div>
+            <div className="flex-1">
+              <p className="text-sm font-black text-slate-100 tracking-tight">{errorNotice.title}</p>
+              <p className="text-xs text-slate-400 mt-1 leading-relaxed">{errorNotice.detail}</p>
+            </div>
+            <button onClick={() => setErrorNotice(null)} className="text-slate-600 hover:text-slate-200 transition-colors" title="Dismiss"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg></button>
+          </div>
+        )}
       </div>
     );
   }
@@ -612,11 +1216,76 @@ Return output as JSON matching the GameState schema with these fields:
           <div className={`p-6 rounded-3xl border text-[11px] leading-relaxed italic transition-all ${is80sMode ? 'bg-rose-950/20 border-rose-900/50 text-rose-200 shadow-[inset_0_0_10px_#e11d4811]' : 'bg-slate-800/80 border-slate-700 text-slate-300 shadow-sm'}`}>{applyTextCase(gameState?.currentQuest || "Awaiting destiny's call.")}</div>
         </section>
 
+        {gameState?.character && (
+          <section>
+            <h3 className={`font-black mb-4 flex items-center gap-3 text-[10px] uppercase tracking-[0.2em] ${is80sMode ? 'text-rose-400' : 'text-amber-400'}`}><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"></path></svg>{gameState.character.name ? applyTextCase(gameState.character.name) : 'CHARACTER'}</h3>
+            <div className={`p-5 rounded-3xl border space-y-4 ${is80sMode ? 'bg-rose-950/20 border-rose-900/50 text-rose-200' : 'bg-slate-800/80 border-slate-700 text-slate-300'}`}>
+              <div>
+                <div className="flex justify-between text-[10px] font-black uppercase tracking-widest mb-1">
+                  <span>HP</span>
+                  <span className="font-mono">{gameState.character.hp} / {gameState.character.maxHp}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-slate-950/60 overflow-hidden">
+                  <div className={`h-full transition-all ${gameState.character.hp * 3 <= gameState.character.maxHp ? 'bg-rose-500' : 'bg-emerald-500'}`} style={{ width: `${(gameState.character.hp / gameState.character.maxHp) * 100}%` }}></div>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {ATTRIBUTES.map(attribute => (
+                  <div key={attribute} className="flex justify-between items-center px-3 py-2 rounded-xl bg-slate-950/40 text-[10px]">
+                    <span className="font-black uppercase tracking-widest opacity-60">{attribute}</span>
+                    <span className="font-mono">{gameState.character!.attributes[attribute]} <span className="opacity-50">({formatModifier(modifierFor(gameState.character!.attributes[attribute]))})</span></span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </section>
+        )}
+
+        {(gameState?.quests || []).length > 0 && (
+          <section className="max-h-72 overflow-hidden flex flex-col">
+            <h3 className={`font-black mb-4 flex items-center gap-3 text-[10px] uppercase tracking-[0.2em] ${is80sMode ? 'text-rose-400' : 'text-amber-400'}`}><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"></path></svg>QUEST LOG</h3>
+            <div className="flex-1 overflow-y-auto space-y-3 custom-scrollbar pr-3">
+              {sortQuests(gameState!.quests!).map(quest => (
+                <div key={quest.id} className={`p-4 rounded-2xl border text-[11px] space-y-2 transition-all ${quest.status === 'active' ? '' : 'opacity-50'} ${is80sMode ? 'bg-rose-950/10 border-rose-900/20 text-rose-300' : 'bg-slate-800/40 border-slate-700/50 text-slate-300'}`}>
+                  <div className="flex justify-between gap-2 font-black">
+                    <span className={quest.status === 'active' ? '' : 'line-through'}>{applyTextCase(quest.title)}</span>
+                    {quest.status !== 'active' && <span className="text-[8px] uppercase tracking-widest flex-shrink-0">{QUEST_MARKS[quest.status]} {quest.status}</span>}
+                  </div>
+                  {quest.objectives.length > 0 && (
+                    <ul className="space-y-1 text-[10px]">
+                      {quest.objectives.map((objective, oi) => (
+                        <li key={oi} className={`flex gap-2 ${objective.done ? 'opacity-50 line-through' : ''}`}><span>{objective.done ? '☑' : '☐'}</span>{applyTextCase(objective.text)}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="text-[8px] font-black uppercase tracking-widest opacity-40">
+                    Beat {quest.startedAt + 1}{quest.endedAt !== undefined && ` – ${quest.endedAt + 1}`}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
         <section className="flex-1 overflow-hidden flex flex-col">
           <h3 className={`font-black mb-4 flex items-center gap-3 text-[10px] uppercase tracking-[0.2em] ${is80sMode ? 'text-rose-400' : 'text-indigo-400'}`}><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"></path></svg>CARRYINGS</h3>
           <div className="flex-1 overflow-y-auto space-y-3 custom-scrollbar pr-3">
-            {(gameState?.inventory || []).map((item, i) => (
-              <div key={i} className={`p-4 rounded-2xl border text-[11px] font-black tracking-tight flex items-center gap-4 transition-all ${is80sMode ? 'bg-rose-950/10 border-rose-900/20 text-rose-300' : 'bg-slate-800/40 border-slate-700/50 text-slate-300'}`}><div className={`w-1.5 h-1.5 rounded-full ${is80sMode ? 'bg-rose-600' : 'bg-indigo-500'}`}></div>{applyTextCase(item)}</div>
+            {(gameState?.inventory || []).map(item => (
+              <div key={item.id} className={`p-4 rounded-2xl border text-[11px] tracking-tight flex items-start gap-4 transition-all ${is80sMode ? 'bg-rose-950/10 border-rose-900/20 text-rose-300' : 'bg-slate-800/40 border-slate-700/50 text-slate-300'}`}>
+                <div className={`mt-1.5 w-1.5 h-1.5 rounded-full flex-shrink-0 ${is80sMode ? 'bg-rose-600' : 'bg-indigo-500'}`}></div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex justify-between gap-2 font-black">
+                    <span>{applyTextCase(item.name)}</span>
+                    {item.quantity > 1 && <span className="font-mono opacity-60">×{item.quantity}</span>}
+                  </div>
+                  {item.description && <p className="text-[10px] leading-snug opacity-60">{applyTextCase(item.description)}</p>}
+                  {item.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {item.tags.map(tag => <span key={tag} className="text-[8px] font-black uppercase tracking-widest px-1.5 py-0.5 rounded-md bg-slate-900/60 opacity-60">{tag}</span>)}
+                    </div>
+                  )}
+                </div>
+              </div>
             ))}
           </div>
         </section>
@@ -637,6 +1306,19 @@ Return output as JSON matching the GameState schema with these fields:
               <span className="text-[10px] font-black uppercase tracking-widest">TEXT-ONLY</span>
               <input type="checkbox" checked={textOnlyMode} onChange={(e) => setTextOnlyMode(e.target.checked)} className="w-4 h-4 rounded-lg border-slate-700 bg-slate-900 text-indigo-600 focus:ring-0 cursor-pointer" />
             </div>
+            {!textOnlyMode && providerCapabilities.image && (
+              <div className="p-4 rounded-2xl bg-slate-950/40 border border-slate-800/50">{imageFormatControls}</div>
+            )}
+            <div className="flex items-center justify-between p-3 rounded-2xl bg-slate-950/40 border border-slate-800/50">
+              <span className="text-[10px] font-black uppercase tracking-widest">PROMPTS</span>
+              <button onClick={handleOpenTemplateModal} className="px-2 py-1 text-[9px] rounded-lg border font-black transition-all border-slate-800 text-slate-400 bg-slate-900/40 hover:text-slate-200">EDIT</button>
+            </div>
+            {cassetteMode !== 'off' && (
+              <div className="flex items-center justify-between p-3 rounded-2xl bg-slate-950/40 border border-slate-800/50">
+                <span className="text-[10px] font-black uppercase tracking-widest">{cassetteMode === 'record' ? '● RECORDING' : '▶ REPLAYING'}</span>
+                <button onClick={cassetteMode === 'record' ? handleSaveCassette : handleEjectCassette} className="px-2 py-1 text-[9px] rounded-lg border font-black transition-all border-slate-800 text-slate-400 bg-slate-900/40 hover:text-slate-200">{cassetteMode === 'record' ? 'SAVE' : 'EJECT'}</button>
+              </div>
+            )}
             <div className="p-4 rounded-2xl bg-slate-950/40 border border-slate-800/50 space-y-4">
               <div className="flex justify-between items-center">
                  <span className="text-[10px] font-black uppercase tracking-widest">CASING</span>
@@ -668,7 +1350,7 @@ Return output as JSON matching the GameState schema with these fields:
                       onChange={(e) => {
                         const val = Math.min(36, Math.max(8, parseInt(e.target.value) || 8));
                         setFontSize(val);
-                        localStorage.setItem('PREF_FONT_SIZE', val.toString());
+                        savePreferences({ fontSize: val });
                       }}
                       className="w-12 px-1 py-0.5 text-[10px] font-mono text-center bg-slate-800 border border-slate-700 rounded text-slate-300"
                     />
@@ -680,7 +1362,7 @@ Return output as JSON matching the GameState schema with these fields:
                     onClick={() => {
                       const val = Math.max(8, fontSize - 1);
                       setFontSize(val);
-                      localStorage.setItem('PREF_FONT_SIZE', val.toString());
+                      savePreferences({ fontSize: val });
                     }}
                     className="px-2 py-1 text-[10px] bg-slate-800 border border-slate-700 rounded text-slate-300 hover:bg-slate-700 transition-colors"
                   >
@@ -695,7 +1377,7 @@ Return output as JSON matching the GameState schema with these fields:
                     onChange={(e) => {
                       const val = parseInt(e.target.value);
                       setFontSize(val);
-                      localStorage.setItem('PREF_FONT_SIZE', val.toString());
+                      savePreferences({ fontSize: val });
                     }}
                     className="flex-1 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
                   />
@@ -703,7 +1385,7 @@ Return output as JSON matching the GameState schema with these fields:
                     onClick={() => {
                       const val = Math.min(36, fontSize + 1);
                       setFontSize(val);
-                      localStorage.setItem('PREF_FONT_SIZE', val.toString());
+                      savePreferences({ fontSize: val });
                     }}
                     className="px-2 py-1 text-[10px] bg-slate-800 border border-slate-700 rounded text-slate-300 hover:bg-slate-700 transition-colors"
                   >
@@ -720,16 +1402,17 @@ Return output as JSON matching the GameState schema with these fields:
 
       <main className="flex-1 flex flex-col overflow-y-auto relative bg-[#010413]">
         <div className="max-w-7xl mx-auto w-full p-8 lg:p-16 lg:px-24 space-y-20 pb-40">
-          {!textOnlyMode && (
+          {!textOnlyMode && providerCapabilities.image && (
             <div className="relative group overflow-visible">
               {imageLoading ? (
                 <div className={`aspect-video w-full rounded-[3rem] flex flex-col items-center justify-center border-2 border-dashed transition-all duration-700 animate-pulse ${is80sMode ? 'bg-rose-950/10 border-rose-900 shadow-[0_0_30px_#e11d4822]' : 'bg-slate-900/50 border-slate-800'}`}>
                   <div className={`w-14 h-14 border-4 rounded-full animate-spin mb-6 ${is80sMode ? 'border-rose-500 border-t-transparent' : 'border-indigo-500 border-t-transparent'}`}></div>
                   <p className={`text-xs font-black uppercase tracking-[0.4em] ${is80sMode ? 'text-rose-500 font-80s text-[9px]' : 'text-slate-500'}`}>Visualizing Destiny...</p>
+                  <button onClick={cancelGeneration} className={`mt-6 px-5 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${is80sMode ? 'border-rose-900 text-rose-500 hover:bg-rose-950/40' : 'border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-slate-200'}`}>Cancel</button>
                 </div>
-              ) : history[0]?.imageUrl ? (
-                <div key={history[0]?.imageUrl} className={`relative overflow-hidden rounded-[3rem] shadow-2xl transition-all duration-[1500ms] animate-in fade-in zoom-in-105 ${is80sMode ? 'shadow-rose-950/40 ring-2 ring-rose-900' : 'shadow-black/60 ring-1 ring-slate-800/80'}`}>
-                  <img src={history[0].imageUrl} className={`w-full aspect-video object-cover transition-transform duration-[6s] group-hover:scale-110 ${is80sMode ? 'pixelated brightness-75 contrast-125 saturate-150' : 'brightness-90 contrast-110'}`} alt="Current Thread Scene" />
+              ) : sceneImageUrl(history[0]) ? (
+                <div key={sceneImageUrl(history[0])} className={`relative overflow-hidden rounded-[3rem] shadow-2xl transition-all duration-[1500ms] animate-in fade-in zoom-in-105 ${is80sMode ? 'shadow-rose-950/40 ring-2 ring-rose-900' : 'shadow-black/60 ring-1 ring-slate-800/80'}`}>
+                  <img src={sceneImageUrl(history[0])} className={`w-full aspect-video object-cover transition-transform duration-[6s] group-hover:scale-110 ${is80sMode ? 'pixelated brightness-75 contrast-125 saturate-150' : 'brightness-90 contrast-110'}`} alt="Current Thread Scene" />
                   <div className={`absolute inset-0 bg-gradient-to-t via-transparent pointer-events-none ${is80sMode ? 'from-rose-950/70' : 'from-slate-950/95'}`}></div>
                 </div>
               ) : null}
@@ -737,25 +1420,64 @@ Return output as JSON matching the GameState schema with these fields:
           )}
 
           <div className="space-y-16">
-            <article key={gameState?.storyText} className={`max-w-none transition-all duration-[1200ms] animate-in fade-in slide-in-from-bottom-8 ${loading ? 'opacity-30 blur-md' : 'opacity-100'}`}>
+            {!loading && history[0]?.checkResult && (
+              <div className={`inline-flex items-center gap-3 px-4 py-2 rounded-xl border text-[11px] font-mono ${history[0].checkResult.outcome.endsWith('success') ? 'border-emerald-800/60 text-emerald-400' : 'border-rose-900/60 text-rose-400'}`}>
+                <span className="text-base">🎲</span>{formatCheck(history[0].checkResult)}
+              </div>
+            )}
+            <article key={isStreaming ? 'streaming' : gameState?.storyText} className={`max-w-none transition-all duration-[1200ms] ${isStreaming ? '' : 'animate-in fade-in slide-in-from-bottom-8'} ${loading && !isStreaming ? 'opacity-30 blur-md' : 'opacity-100'}`}>
               <div 
                 className={`leading-[1.7] tracking-tight ${getGenreFontClass()} text-slate-100/90`}
                 style={{ fontSize: `${fontSize}px` }}
               >
-                {applyTextCase(gameState?.storyText || '')}
+                {applyTextCase(isStreaming ? streamingText : gameState?.storyText || '')}
               </div>
             </article>
-            {!loading && gameState?.choices && (
+            {!loading && history[0]?.state && (
+              <div className={`flex flex-wrap items-center gap-3 text-[10px] font-black uppercase tracking-widest ${is80sMode ? 'text-rose-500' : 'text-slate-500'}`}>
+                {takeCount(history[0]) > 1 && (
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => showTake((history[0].activeTake ?? 0) - 1)} disabled={(history[0].activeTake ?? 0) === 0} className="px-2 py-1 rounded-lg border border-slate-800 hover:text-slate-200 disabled:opacity-30 transition-all">‹</button>
+                    <span>Take {(history[0].activeTake ?? 0) + 1} of {takeCount(history[0])}</span>
+                    <button onClick={() => showTake((history[0].activeTake ?? 0) + 1)} disabled={(history[0].activeTake ?? 0) >= takeCount(history[0]) - 1} className="px-2 py-1 rounded-lg border border-slate-800 hover:text-slate-200 disabled:opacity-30 transition-all">›</button>
+                  </div>
+                )}
+                <button onClick={rerollBeat} title="Write this beat again from the same moment" className={`px-3 py-1 rounded-lg border transition-all ${is80sMode ? 'border-rose-900 hover:bg-rose-950' : 'border-slate-800 hover:text-slate-200 hover:bg-slate-900'}`}>Reroll</button>
+                {reviewingTakes && (
+                  <button onClick={() => setReviewingTakes(false)} className={`px-3 py-1 rounded-lg border transition-all ${is80sMode ? 'bg-rose-600 border-rose-500 text-white' : 'bg-indigo-600 border-indigo-500 text-white'}`}>Keep this take</button>
+                )}
+              </div>
+            )}
+            {!loading && !reviewingTakes && gameState?.choices && (
               <div className="grid grid-cols-1 gap-5 animate-in fade-in slide-in-from-bottom-12 duration-1000">
-                {gameState.choices.map((choice, i) => (
+                {gameState.choices.map(choice => ({ choice, check: checkFor(gameState, choice) })).map(({ choice, check }, i) => (
                   <button key={i} onClick={() => makeChoice(choice)} className={`group relative p-7 text-left rounded-[2rem] border transition-all hover:translate-x-2 active:scale-[0.98] flex items-center gap-8 ${is80sMode ? 'bg-rose-950/5 border-rose-900/30 hover:bg-rose-900/20 hover:border-rose-600' : 'bg-slate-900/30 border-slate-800/60 hover:bg-slate-800/80 hover:border-indigo-500/50 hover:shadow-xl hover:shadow-indigo-950/10'} ${getGenreFontClass()}`}>
                     <span className={`flex-shrink-0 w-10 h-10 rounded-2xl flex items-center justify-center text-xs font-black border transition-colors ${is80sMode ? 'bg-rose-950 border-rose-800 text-rose-500 group-hover:border-rose-400 font-80s text-[9px]' : 'bg-slate-950 border-slate-700 text-indigo-400 group-hover:border-indigo-500'}`}>{i + 1}</span>
                     <span className={`font-bold tracking-tight ${is80sMode ? 'font-80s leading-6' : ''}`} style={{ fontSize: `${fontSize * 0.9}px` }}>{applyTextCase(choice)}</span>
+                    {check && (
+                      <span title="Skill check: a d20 plus your attribute modifier must reach the difficulty" className={`flex-shrink-0 px-2 py-1 rounded-lg border text-[9px] font-mono font-black uppercase tracking-widest ${is80sMode ? 'border-rose-800 text-rose-400' : 'border-slate-700 text-slate-400'}`}>
+                        🎲 {check.attribute} {check.difficulty}
+                      </span>
+                    )}
                     <div className={`ml-auto opacity-0 group-hover:opacity-100 transition-opacity translate-x-4 group-hover:translate-x-0 duration-300 ${is80sMode ? 'text-rose-500' : 'text-indigo-500'}`}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M13 7l5 5m0 0l-5 5m5-5H6"></path></svg></div>
                   </button>
                 ))}
               </div>
             )}
+            {!loading && !reviewingTakes && gameState && (
+              <form onSubmit={(e) => { e.preventDefault(); submitAction(); }} className="flex gap-4">
+                <input
+                  type="text"
+                  value={actionInput}
+                  maxLength={MAX_ACTION_LENGTH}
+                  onChange={(e) => setActionInput(e.target.value)}
+                  placeholder="Or describe what you do..."
+                  className={`flex-1 px-7 py-5 rounded-[2rem] border bg-transparent font-bold focus:outline-none focus:ring-2 transition-all ${is80sMode ? 'border-rose-900/30 text-rose-200 placeholder:text-rose-900 focus:ring-rose-600' : 'border-slate-800/60 text-slate-200 placeholder:text-slate-600 focus:ring-indigo-500'} ${getGenreFontClass()}`}
+                  style={{ fontSize: `${fontSize * 0.8}px` }}
+                />
+                <button type="submit" disabled={!normalizeAction(actionInput)} className={`px-8 rounded-[2rem] text-[10px] font-black uppercase tracking-[0.2em] transition-all disabled:opacity-30 ${is80sMode ? 'bg-rose-600 hover:bg-rose-500 text-white' : 'bg-indigo-600 hover:bg-indigo-500 text-white'}`}>Act</button>
+              </form>
+            )}
             {loading && (
               <div className={`flex flex-col items-center justify-center gap-10 py-16 ${is80sMode ? 'text-rose-600' : 'text-slate-600'}`}>
                 <div className="w-full max-w-lg h-1.5 bg-slate-900/50 rounded-full overflow-hidden border border-slate-800/50 shadow-inner relative">
@@ -765,6 +1487,7 @@ Return output as JSON matching the GameState schema with these fields:
                    <p className={`text-[10px] font-black uppercase tracking-[0.6em] animate-pulse ${is80sMode ? 'font-80s text-[9px]' : ''}`}>Weaving Destiny Threads...</p>
                    <p className="text-[9px] opacity-30 font-black uppercase tracking-widest italic">The Oracle consults the loom</p>
                 </div>
+                <button onClick={cancelGeneration} className={`px-5 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${is80sMode ? 'border-rose-900 text-rose-500 hover:bg-rose-950/40' : 'border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-slate-200'}`}>Cancel</button>
                 <style>{`@keyframes loom { 0% { transform: translateX(-120%); } 100% { transform: translateX(300%); } }`}</style>
               </div>
             )}
@@ -776,9 +1499,9 @@ Return output as JSON matching the GameState schema with these fields:
               <div className="space-y-24">
                 {history.slice(1).map((item, idx) => (
                   <div key={idx} className="flex flex-col sm:flex-row gap-12 items-start opacity-30 hover:opacity-100 transition-all duration-1000 group/item">
-                    {item.imageUrl && !textOnlyMode && (
+                    {sceneImageUrl(item) && !textOnlyMode && (
                       <div className="w-full sm:w-64 aspect-video rounded-[2.5rem] overflow-hidden border border-slate-800/80 flex-shrink-0 shadow-2xl group-hover/item:border-indigo-500/40 transition-colors">
-                        <img src={item.imageUrl} className={`w-full h-full object-cover grayscale brightness-50 contrast-125 group-hover/item:grayscale-0 group-hover/item:brightness-100 transition-all duration-1000 ${is80sMode ? 'pixelated' : ''}`} alt="Archived Scene" />
+                        <img src={sceneImageUrl(item)} className={`w-full h-full object-cover grayscale brightness-50 contrast-125 group-hover/item:grayscale-0 group-hover/item:brightness-100 transition-all duration-1000 ${is80sMode ? 'pixelated' : ''}`} alt="Archived Scene" />
                       </div>
                     )}
                     <div className="space-y-6 flex-1">
@@ -795,8 +1518,8 @@ Return output as JSON matching the GameState schema with these fields:
                         {item.state && (item.state.inventory || []).length > 0 && (
                           <div className="flex flex-wrap gap-2 pt-4 border-t border-slate-800/30">
                              <span className="text-[9px] font-black uppercase tracking-[0.2em] text-slate-600 mr-2 self-center">Held Items:</span>
-                             {(item.state.inventory || []).map((loot, li) => (
-                               <span key={li} className="text-[9px] font-black px-3 py-1 rounded-xl bg-slate-900 border border-slate-800/60 text-slate-500 group-hover/item:text-slate-400 group-hover/item:border-slate-700 transition-colors">{applyTextCase(loot)}</span>
+                             {(item.state.inventory || []).map(loot => (
+                               <span key={loot.id} className="text-[9px] font-black px-3 py-1 rounded-xl bg-slate-900 border border-slate-800/60 text-slate-500 group-hover/item:text-slate-400 group-hover/item:border-slate-700 transition-colors">{applyTextCase(loot.quantity > 1 ? `${loot.name} ×${loot.quantity}` : loot.name)}</span>
                              ))}
                           </div>
                         )}
@@ -831,6 +1554,19 @@ Return output as JSON matching the GameState schema with these fields:
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5S19.832 5.477 21 6.253v13C19.832 18.477 18.246 18 16.5 18c-1.746 0-3.332.477-4.5 1.253"></path></svg>
                 STORY ARCHIVES
               </h2>
+              {history.length > 0 && (
+                <div className="flex gap-2 mt-6">
+                  {([['markdown', 'MD'], ['html', 'HTML'], ['epub', 'EPUB']] as [PublishFormat, string][]).map(([format, label]) => (
+                    <button key={format} onClick={() => handlePublish(format)} title={`Publish story as ${label}`} className={`flex-1 px-2 py-1 text-[9px] rounded-lg border font-black tracking-widest transition-all ${is80sMode ? 'border-rose-900 text-rose-500 hover:bg-rose-950' : 'border-slate-800 text-slate-400 bg-slate-900/40 hover:text-slate-200'}`}>{label}</button>
+                  ))}
+                </div>
+              )}
+              {currentTimeline && countBranches(currentTimeline) > 1 && (
+                <div className="mt-6 space-y-1">
+                  <p className={`text-[9px] font-black uppercase tracking-[0.3em] mb-2 ${is80sMode ? 'text-rose-600' : 'text-slate-500'}`}>Timelines</p>
+                  {renderBranch(currentTimeline, 0)}
+                </div>
+              )}
             </div>
             <div className="flex-1 overflow-y-auto p-8 space-y-8 custom-scrollbar">
           {history.length > 0 ? (
@@ -842,13 +1578,44 @@ Return output as JSON matching the GameState schema with these fields:
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className={`text-xs font-black uppercase tracking-widest mb-2 ${is80sMode ? 'text-rose-600' : 'text-indigo-400'}`}>
-                      {item.choice}
+                      {item.customAction && <span title="Typed by the player" className="opacity-60">✎ </span>}{item.choice}
                     </div>
+                    {item.actionCheck && !item.actionCheck.plausible && (
+                      <div className="text-[10px] text-rose-400/80 italic mb-2">Not possible: {item.actionCheck.reason || 'the attempt failed'}</div>
+                    )}
+                    {item.checkResult && (
+                      <div className={`text-[10px] font-mono mb-2 ${item.checkResult.outcome.endsWith('success') ? 'text-emerald-400/80' : 'text-rose-400/80'}`}>🎲 {formatCheck(item.checkResult)}</div>
+                    )}
                     <div className={`text-sm leading-relaxed ${is80sMode ? 'text-rose-200' : 'text-slate-300'}`}>
                       {applyTextCase(item.text)}
                     </div>
-                    {item.imageUrl && (
-                      <img src={item.imageUrl} alt="Scene" className="mt-3 rounded-xl w-full h-32 object-cover border border-slate-700/50" />
+                    {questEventsAt(gameState?.quests || [], beatIndexAt(history, i)).map(({ kind, quest }) => (
+                      <div key={`${kind}-${quest.id}`} className={`text-[10px] font-black uppercase tracking-widest mt-3 ${kind === 'started' ? 'text-amber-400/80' : kind === 'completed' ? 'text-emerald-400/80' : 'text-slate-500'}`}>
+                        {kind === 'started' ? '⚑ Quest started' : `${QUEST_MARKS[kind]} Quest ${kind}`}: <span className="normal-case tracking-normal font-bold">{quest.title}</span>
+                      </div>
+                    ))}
+                    {item.inventoryDiff && (item.inventoryDiff.changes.length > 0 || item.inventoryDiff.rejected.length > 0) && (
+                      <div className="mt-3 space-y-1 text-[10px] font-mono">
+                        {item.inventoryDiff.changes.map((change, ci) => (
+                          <div key={ci} className={change.kind === 'gained' ? 'text-emerald-400/80' : change.kind === 'lost' ? 'text-rose-400/80' : 'text-amber-400/80'}>
+                            {formatChange(change)}{change.reason && <span className="italic opacity-70"> ({change.reason})</span>}
+                          </div>
+                        ))}
+                        {item.inventoryDiff.rejected.map((change, ci) => (
+                          <div key={ci} className="text-slate-500 line-through" title="The story gave no reason for this change, so it was undone">{formatChange(change)}</div>
+                        ))}
+                      </div>
+                    )}
+                    {sceneImageUrl(item) && (
+                      <img src={sceneImageUrl(item)} alt="Scene" className="mt-3 rounded-xl w-full h-32 object-cover border border-slate-700/50" />
+                    )}
+                    {item.state && (
+                      <div className="flex gap-2 mt-3 opacity-0 group-hover:opacity-100 transition-all">
+                        {i > 0 && (
+                          <button onClick={() => rewindTo(i)} disabled={loading} title="Return to this beat and drop everything after it" className={`px-2 py-1 text-[9px] rounded-lg border font-black uppercase tracking-widest transition-all disabled:opacity-30 ${is80sMode ? 'border-rose-900 text-rose-500 hover:bg-rose-950' : 'border-slate-800 text-slate-500 hover:text-slate-200'}`}>Rewind here</button>
+                        )}
+                        <button onClick={() => forkFrom(i)} disabled={loading} title="Start a new save that branches at this beat" className={`px-2 py-1 text-[9px] rounded-lg border font-black uppercase tracking-widest transition-all disabled:opacity-30 ${is80sMode ? 'border-rose-900 text-rose-500 hover:bg-rose-950' : 'border-slate-800 text-slate-500 hover:text-slate-200'}`}>Fork from here</button>
+                      </div>
                     )}
                   </div>
                 </div>
@@ -901,11 +1668,29 @@ Return output as JSON matching the GameState schema with these fields:
                   <input type="number" step="1.00" value={budgetThreshold} onChange={(e) => {
                     const v = parseFloat(e.target.value);
                     setBudgetThreshold(v);
-                    localStorage.setItem('BUDGET_THRESHOLD', v.toString());
+                    savePreferences({ budgetThreshold: v });
                   }} className="flex-1 bg-slate-950 border border-slate-800 rounded-[1.8rem] px-8 py-5 text-base font-mono font-bold focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all" />
                   <button onClick={() => setUsageStats(initialUsageStats)} className="px-10 py-5 bg-slate-800/60 hover:bg-rose-900/30 hover:border-rose-800 rounded-[1.8rem] text-[10px] font-black transition-all uppercase tracking-[0.3em] border border-slate-700">RESET</button>
                 </div>
               </div>
+              <div className="bg-slate-950/60 p-7 rounded-[2.5rem] border border-slate-800/80 shadow-inner">
+                <p className="text-[10px] text-slate-600 font-black uppercase tracking-widest mb-3">Rerolls</p>
+                <p className="text-xl font-mono text-slate-300 font-black">{usageStats.rerollCount} takes · ${usageStats.rerollCost.toFixed(2)}</p>
+                <p className="text-[10px] text-slate-600 font-mono mt-2">Included in the total of ${usageStats.estimatedCost.toFixed(2)}</p>
+              </div>
+              <div className="bg-slate-950/60 p-7 rounded-[2.5rem] border border-slate-800/80 shadow-inner">
+                <p className="text-[10px] text-slate-600 font-black uppercase tracking-widest mb-3">Scene Archive</p>
+                {assetUsage ? (
+                  <>
+                    <p className="text-xl font-mono text-slate-300 font-black">{assetUsage.assetCount} scenes · {formatBytes(assetUsage.assetBytes)}</p>
+                    {assetUsage.originQuota !== undefined && (
+                      <p className="text-[10px] text-slate-600 font-mono mt-2">Browser storage: {formatBytes(assetUsage.originUsage || 0)} of {formatBytes(assetUsage.originQuota)}</p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-[10px] text-slate-600 font-mono">Measuring...</p>
+                )}
+              </div>
               <p className="text-[11px] text-slate-600 italic leading-relaxed text-center px-4">Estimates provided are based on standard LLM pricing tiers for the current loom configuration.</p>
             </div>
           </div>
@@ -914,7 +1699,7 @@ Return output as JSON matching the GameState schema with these fields:
 
       {showKeyModal && (
         <div className="fixed inset-0 z-[110] flex items-center justify-center p-8 bg-slate-950/95 backdrop-blur-2xl animate-in fade-in">
-          <div className="bg-slate-900 border border-slate-800 max-w-xl w-full p-10 rounded-[3rem] shadow-[0_0_100px_rgba(0,0,0,0.8)] transform animate-in zoom-in-95">
+          <div className="bg-slate-900 border border-slate-800 max-w-xl w-full max-h-[90vh] overflow-y-auto p-10 rounded-[3rem] shadow-[0_0_100px_rgba(0,0,0,0.8)] transform animate-in zoom-in-95">
             <div className="flex items-center gap-4 mb-8">
               <div className="w-14 h-14 bg-indigo-600/20 rounded-2xl flex items-center justify-center border border-indigo-500/30">
                 <svg className="w-7 h-7 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"></path></svg>
@@ -961,6 +1746,36 @@ Return output as JSON matching the GameState schema with these fields:
                 />
                 <p className="text-xs text-slate-500 mt-1">Alternative provider (text only, no images)</p>
               </div>
+
+              <div className="pt-5 border-t border-slate-800">
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Local Model Server</label>
+                <input
+                  type="text"
+                  value={localSettingsInput.baseUrl}
+                  onChange={(e) => setLocalSettingsInput(prev => ({ ...prev, baseUrl: e.target.value }))}
+                  placeholder={DEFAULT_LOCAL_BASE_URL}
+                  className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-xl text-slate-200 placeholder-slate-500 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 font-mono text-sm"
+                />
+                <div className="flex gap-3 mt-3">
+                  <input
+                    type="text"
+                    value={localSettingsInput.model}
+                    onChange={(e) => setLocalSettingsInput(prev => ({ ...prev, model: e.target.value }))}
+                    placeholder={DEFAULT_LOCAL_MODEL}
+                    className="flex-1 px-4 py-3 bg-slate-800 border border-slate-700 rounded-xl text-slate-200 placeholder-slate-500 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 font-mono text-sm"
+                  />
+                  <input
+                    type="password"
+                    value={apiKeyInputs[AIProvider.LOCAL]}
+                    onChange={(e) => setApiKeyInputs(prev => ({ ...prev, [AIProvider.LOCAL]: e.target.value }))}
+                    placeholder="Key (optional)"
+                    className="flex-1 px-4 py-3 bg-slate-800 border border-slate-700 rounded-xl text-slate-200 placeholder-slate-500 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 font-mono text-sm"
+                  />
+                </div>
+                <p className="text-xs text-slate-500 mt-1">Ollama, llama.cpp or LM Studio base URL and model name. Works offline, text only</p>
+              </div>
+
+              {modelPickers}
             </div>
             
             <div className="flex gap-3">
@@ -983,6 +1798,19 @@ Return output as JSON matching the GameState schema with these fields:
         </div>
       )}
 
+      {templateModal}
+
+      {errorNotice && (
+        <div role="alert" className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[120] max-w-lg w-[calc(100%-4rem)] bg-slate-900 border border-rose-800/60 rounded-3xl shadow-2xl p-6 flex items-start gap-4 animate-in fade-in">
+          <div className="w-10 h-10 flex-shrink-0 rounded-2xl bg-rose-900/30 border border-rose-800/50 flex items-center justify-center text-rose-400 font-black">!</div>
+          <div className="flex-1">
+            <p className="text-sm font-black text-slate-100 tracking-tight">{errorNotice.title}</p>
+            <p className="text-xs text-slate-400 mt-1 leading-relaxed">{errorNotice.detail}</p>
+          </div>
+          <button onClick={() => setErrorNotice(null)} className="text-slate-600 hover:text-slate-200 transition-colors" title="Dismiss"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg></button>
+        </div>
+      )}
+
       <style>{`
         .perspective-1000 { perspective: 1000px; }
         .animate-in { animation-duration: 0.8s; animation-fill-mode: both; }
@@ -0,0 +1,266 @@
+import { AIProvider } from "./types";
+
+// Typed failures for every AI provider. Adapters translate raw HTTP/SDK errors into one of
+// these so callers can decide whether to retry, prompt for a key, or just tell the player.
+
+export type AIErrorKind =
+  | 'auth'
+  | 'model_not_found'
+  | 'rate_limited'
+  | 'quota_exhausted'
+  | 'content_blocked'
+  | 'malformed_response'
+  | 'request_rejected'
+  | 'network'
+  | 'timeout'
+  | 'cancelled';
+
+export class AIServiceError extends Error {
+  constructor(
+    public readonly kind: AIErrorKind,
+    message: string,
+    public readonly provider?: AIProvider,
+    public readonly retryable: boolean = false,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'AIServiceError';
+  }
+}
+
+export class AuthError extends AIServiceError {
+  constructor(provider?: AIProvider, cause?: unknown) {
+    super('auth', 'API_KEY_ERROR', provider, false, cause);
+    this.name = 'AuthError';
+  }
+}
+
+// The key works but the selected model id is unknown or retired
+export class ModelNotFoundError extends AIServiceError {
+  constructor(provider?: AIProvider, cause?: unknown) {
+    super('model_not_found', 'Model not found', provider, false, cause);
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+export class RateLimitError extends AIServiceError {
+  constructor(provider?: AIProvider, public readonly retryAfterMs?: number, cause?: unknown) {
+    super('rate_limited', 'Rate limited by provider', provider, true, cause);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class QuotaExhaustedError extends AIServiceError {
+  constructor(provider?: AIProvider, cause?: unknown) {
+    super('quota_exhausted', 'Provider quota exhausted', provider, false, cause);
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+export class ContentBlockedError extends AIServiceError {
+  constructor(provider?: AIProvider, public readonly reason?: string, cause?: unknown) {
+    super('content_blocked', `Content blocked${reason ? `: ${reason}` : ''}`, provider, false, cause);
+    this.name = 'ContentBlockedError';
+  }
+}
+
+export class MalformedResponseError extends AIServiceError {
+  constructor(provider?: AIProvider, detail?: string, cause?: unknown) {
+    super('malformed_response', `Malformed response${detail ? `: ${detail}` : ''}`, provider, false, cause);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+// Any other client error; the provider understood the request and turned it down
+export class RequestRejectedError extends AIServiceError {
+  constructor(provider: AIProvider | undefined, public readonly status: number, body: string = '') {
+    super('request_rejected', `HTTP ${status}: ${body.slice(0, 200)}`, provider, false, body);
+    this.name = 'RequestRejectedError';
+  }
+}
+
+// Covers unreachable hosts as well as upstream 5xx/overloaded responses
+export class NetworkError extends AIServiceError {
+  constructor(provider?: AIProvider, public readonly status?: number, cause?: unknown) {
+    super('network', status ? `Provider unavailable (HTTP ${status})` : 'Network request failed', provider, true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends AIServiceError {
+  constructor(provider?: AIProvider, public readonly timeoutMs?: number) {
+    super('timeout', `Request timed out${timeoutMs ? ` after ${Math.round(timeoutMs / 1000)}s` : ''}`, provider, true);
+    this.name = 'TimeoutError';
+  }
+}
+
+// The player aborted the request; never retried, never failed over
+export class CancelledError extends AIServiceError {
+  constructor(provider?: AIProvider, cause?: unknown) {
+    super('cancelled', 'Request cancelled', provider, false, cause);
+    this.name = 'CancelledError';
+  }
+}
+
+// Accepts delta-seconds or an HTTP date, per RFC 9110
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const QUOTA_PATTERN = /insufficient_quota|quota exceeded|exceeded your current quota|billing|credit balance|perday/i;
+const MODEL_PATTERN = /model_not_found/i;
+const CONTENT_PATTERN = /content_policy|content policy|safety system|blocked|prohibited_content/i;
+
+export const classifyHttpError = (
+  provider: AIProvider,
+  status: number,
+  body: string,
+  headers?: Headers
+): Error => {
+  if (status === 401 || status === 403) return new AuthError(provider, body);
+  // A mistyped or retired model id; local servers answer 404 for models they have not pulled
+  if (status === 404 || MODEL_PATTERN.test(body)) return new ModelNotFoundError(provider, body);
+  if (status === 429) {
+    if (QUOTA_PATTERN.test(body)) return new QuotaExhaustedError(provider, body);
+    // OpenAI sends a millisecond variant alongside the standard header
+    const retryAfterMs = headers?.get('retry-after-ms');
+    const retryAfter = retryAfterMs ? Number(retryAfterMs) : parseRetryAfter(headers?.get('retry-after'));
+    return new RateLimitError(provider, retryAfter, body);
+  }
+  if (status === 402) return new QuotaExhaustedError(provider, body);
+  if (status === 400 && CONTENT_PATTERN.test(body)) return new ContentBlockedError(provider, undefined, body);
+  if (status === 408) return new TimeoutError(provider);
+  if (status >= 500) return new NetworkError(provider, status, body);
+  return new RequestRejectedError(provider, status, body);
+};
+
+// Throws a typed error for a failed fetch response
+export const ensureOk = async (response: Response, provider: AIProvider): Promise<void> => {
+  if (response.ok) return;
+  const body = await response.text().catch(() => '');
+  throw classifyHttpError(provider, response.status, body || response.statusText || '', response.headers);
+};
+
+// Wraps anything that escaped an adapter (fetch TypeErrors, JSON errors) in the taxonomy where possible
+export const toAIServiceError = (error: unknown, provider: AIProvider): unknown => {
+  if (error instanceof AIServiceError) return error;
+  if ((error as any)?.name === 'AbortError') return new CancelledError(provider, error);
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) {
+    return new NetworkError(provider, undefined, error);
+  }
+  return error;
+};
+
+export const isRetryableError = (error: unknown): boolean => {
+  return error instanceof AIServiceError && error.retryable;
+};
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with full jitter; a provider's Retry-After always wins when present
+export const backoffDelay = (attempt: number, error: unknown, options: RetryOptions = {}): number => {
+  const { baseDelayMs = 500, maxDelayMs = 8000, random = Math.random } = options;
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, maxDelayMs * 4);
+  }
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+};
+
+export const withRetry = async <T>(call: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxAttempts = 3, sleep = defaultSleep } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (!isRetryableError(error) || attempt + 1 >= maxAttempts) throw error;
+      const delay = backoffDelay(attempt, error, options);
+      console.warn(`Retrying after ${(error as AIServiceError).kind} in ${delay}ms (attempt ${attempt + 2}/${maxAttempts})`);
+      await sleep(delay);
+    }
+  }
+};
+
+// The call gets its own signal, aborted when time runs out or the parent signal aborts, so a
+// timed-out request is cancelled before a retry sends another one
+export const withTimeout = <T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number, provider: AIProvider, parent?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  const forward = () => controller.abort();
+  if (parent?.aborted) controller.abort();
+  else parent?.addEventListener('abort', forward, { once: true });
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(provider, timeoutMs));
+    }, timeoutMs);
+    const settle = () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', forward);
+    };
+    Promise.resolve().then(() => call(controller.signal)).then(
+      value => { settle(); resolve(value); },
+      error => { settle(); reject(error); }
+    );
+  });
+};
+
+// Rejects as soon as the signal aborts, even if the underlying call ignores it
+export const withAbort = <T>(promise: Promise<T>, signal: AbortSignal | undefined, provider: AIProvider): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new CancelledError(provider));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CancelledError(provider));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      error => { signal.removeEventListener('abort', onAbort); reject(error); }
+    );
+  });
+};
+
+export interface ErrorNotice {
+  title: string;
+  detail: string;
+}
+
+// Player-facing explanation for any failure that reaches the UI
+export const describeError = (error: unknown): ErrorNotice => {
+  if (!(error instanceof AIServiceError)) {
+    return { title: 'Something went wrong', detail: 'The loom snagged unexpectedly. Please try again.' };
+  }
+  const who = error.provider ? ` (${error.provider})` : '';
+  switch (error.kind) {
+    case 'auth':
+      return { title: 'API key rejected', detail: `Check the key for this provider${who} in API Keys.` };
+    case 'model_not_found':
+      return { title: 'Model not found', detail: `The provider${who} does not offer the selected model. Pick another one in API Keys.` };
+    case 'rate_limited':
+      return { title: 'Too many requests', detail: `The provider${who} is throttling requests. Wait a moment and try again.` };
+    case 'quota_exhausted':
+      return { title: 'Quota exhausted', detail: `Your account${who} is out of credits or has hit its usage limit.` };
+    case 'content_blocked':
+      return { title: 'Content blocked', detail: `The provider${who} refused this request under its safety policy. Try a different choice.` };
+    case 'malformed_response':
+      return { title: 'Garbled response', detail: `The model${who} replied in a format the game could not read. Try again.` };
+    case 'request_rejected':
+      return { title: 'Request rejected', detail: `The provider${who} turned this request down. Try again, or check the model and settings in API Keys.` };
+    case 'network':
+      return { title: 'Provider unreachable', detail: `Could not get an answer from the provider${who}. Check your connection and try again.` };
+    case 'timeout':
+      return { title: 'Request timed out', detail: `The provider${who} took too long to respond. Try again.` };
+    case 'cancelled':
+      return { title: 'Cancelled', detail: 'The request was stopped before it finished.' };
+  }
+};
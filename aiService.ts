@@ -1,59 +1,89 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { GameState, ImageSize, AIProvider } from "./types";
+import { GoogleGenAI, Type, FunctionCallingConfigMode } from "@google/genai";
+import { GameState, AIProvider, ImageSize, AspectRatio } from "./types";
+import { ServiceResponse, ImageQuality, ImageFormat, DEFAULT_IMAGE_FORMAT, RequestOptions, ImageRequestOptions, ChatRequestOptions, ProviderAdapter, ProviderCapabilities, registerProvider, getProviderAdapter, getProviderCapabilities } from "./providerRegistry";
+import { withCassette } from "./cassette";
+import { readSSE, extractPartialStoryText } from "./streaming";
+import { ModelRole, getSelectedModel, getModelPricing, getImagePrice, resolveImageModel } from "./modelCatalog";
+import { renderPrompt } from "./promptTemplates";
+import { chatHistoryFor, formatRecentBeats } from "./chatHistory";
+import { MAX_TOOL_ROUNDS, runChroniclerTool, parseToolArguments, geminiFunctionDeclarations, openaiTools, anthropicTools } from "./chroniclerTools";
+import { extractJson, validateGameState, buildRepairPrompt, applyDefaults, formatIssues } from "./gameStateValidator";
+import { formatInventory } from "./inventory";
+import {
+  AIServiceError,
+  AuthError,
+  ModelNotFoundError,
+  RateLimitError,
+  QuotaExhaustedError,
+  ContentBlockedError,
+  MalformedResponseError,
+  NetworkError,
+  classifyHttpError,
+  ensureOk,
+  toAIServiceError,
+  withRetry,
+  withTimeout,
+  withAbort,
+  CancelledError
+} from "./aiErrors";
 
-const PRICING = {
-  GEMINI_FLASH: { input: 0.1 / 1000000, output: 0.4 / 1000000, image: 0.0008 },
-  GEMINI_PRO: { input: 1.25 / 1000000, output: 5.0 / 1000000, image: 0.04 },
-  OPENAI_GPT4: { input: 10 / 1000000, output: 30 / 1000000, image: 0.04 },
-  OPENAI_GPT3_5: { input: 0.5 / 1000000, output: 1.5 / 1000000, image: 0.02 },
-  CLAUDE_HAIKU: { input: 0.25 / 1000000, output: 1.25 / 1000000, image: 0.03 },
-  CLAUDE_SONNET: { input: 3 / 1000000, output: 15 / 1000000, image: 0.06 }
-};
+export type { ServiceResponse, RequestOptions, ImageFormat, ImageRequestOptions, ChatRequestOptions } from "./providerRegistry";
 
-export interface ServiceResponse<T> {
-  data: T;
-  usage: {
-    inputTokens: number;
-    outputTokens: number;
-    isPremium?: boolean;
-    provider: AIProvider;
-  };
-}
+const REQUEST_TIMEOUT_MS = {
+  story: 90000,
+  image: 120000,
+  chat: 60000
+};
 
-const handleGeminiError = (error: any) => {
+const handleGeminiError = (error: any): never => {
   console.error("Gemini Error:", error);
+  if (error instanceof AIServiceError) throw error;
   const errorMessage = (error?.message || error?.error?.message || "").toLowerCase();
-  const errorCode = error?.code || error?.error?.code;
+  const errorCode = error?.status || error?.code || error?.error?.code;
 
   if (
     errorCode === 403 || 
-    errorCode === 404 ||
     errorMessage.includes("permission") || 
-    errorMessage.includes("not found") ||
     errorMessage.includes("api_key_invalid")
   ) {
-    throw new Error("API_KEY_ERROR");
+    throw new AuthError(AIProvider.GEMINI, error);
+  }
+  // A mistyped or retired model id, not a bad key
+  if (errorCode === 404 || errorMessage.includes("not found")) {
+    throw new ModelNotFoundError(AIProvider.GEMINI, error);
+  }
+  if (errorCode === 429 || errorMessage.includes("resource_exhausted")) {
+    // Gemini reports per-day limits and per-minute throttling with the same status
+    if (errorMessage.includes("perday") || errorMessage.includes("billing")) {
+      throw new QuotaExhaustedError(AIProvider.GEMINI, error);
+    }
+    const retryDelay = /retry(?:delay"?:\s*"| in )([\d.]+)s/.exec(errorMessage);
+    throw new RateLimitError(AIProvider.GEMINI, retryDelay ? parseFloat(retryDelay[1]) * 1000 : undefined, error);
   }
-  throw error;
+  if (typeof errorCode === 'number' && errorCode >= 500) {
+    throw new NetworkError(AIProvider.GEMINI, errorCode, error);
+  }
+  throw toAIServiceError(error, AIProvider.GEMINI);
 };
 
-const handleOpenAIError = (error: any) => {
+const handleOpenAIError = (error: any): never => {
   console.error("OpenAI Error:", error);
-  if (error?.status === 401) {
-    throw new Error("API_KEY_ERROR");
-  }
-  throw error;
+  throw toAIServiceError(error, AIProvider.OPENAI);
 };
 
-const handleClaudeError = (error: any) => {
+const handleClaudeError = (error: any): never => {
   console.error("Claude Error:", error);
-  if (error?.status === 401) {
-    throw new Error("API_KEY_ERROR");
-  }
-  throw error;
+  throw toAIServiceError(error, AIProvider.CLAUDE);
+};
+
+const handleLocalError = (error: any): never => {
+  console.error("Local Model Error:", error);
+  throw toAIServiceError(error, AIProvider.LOCAL);
 };
 
 const API_KEY_STORAGE_PREFIX = 'CHRONICLE_WEAVER_API_KEY_';
+const LOCAL_BASE_URL_STORAGE_KEY = 'CHRONICLE_WEAVER_LOCAL_BASE_URL';
+const LOCAL_MODEL_STORAGE_KEY = 'CHRONICLE_WEAVER_LOCAL_MODEL';
 
 export const getStoredApiKey = (provider: AIProvider): string => {
   const key = localStorage.getItem(`${API_KEY_STORAGE_PREFIX}${provider}`);
@@ -68,7 +98,11 @@ export const setStoredApiKey = (provider: AIProvider, key: string): void => {
   }
 };
 
+// Local servers usually run without a key, so a saved base URL is what makes them usable
 export const hasApiKey = (provider: AIProvider): boolean => {
+  if (provider === AIProvider.LOCAL) {
+    return !!localStorage.getItem(LOCAL_BASE_URL_STORAGE_KEY);
+  }
   return getStoredApiKey(provider).length > 0;
 };
 
@@ -82,51 +116,287 @@ const getProviderKey = (provider: AIProvider): string => {
   return getStoredApiKey(provider);
 };
 
+// Failover Chain: ordered providers to try when the selected one fails for a reason other than its key
+const FAILOVER_CHAIN_STORAGE_KEY = 'CHRONICLE_WEAVER_FAILOVER_CHAIN';
+
+export const getFailoverChain = (): AIProvider[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(FAILOVER_CHAIN_STORAGE_KEY) || '[]');
+    const known = Object.values(AIProvider) as string[];
+    return Array.isArray(stored) ? stored.filter((p: string) => known.includes(p)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const setFailoverChain = (chain: AIProvider[]): void => {
+  if (chain.length > 0) {
+    localStorage.setItem(FAILOVER_CHAIN_STORAGE_KEY, JSON.stringify(Array.from(new Set(chain))));
+  } else {
+    localStorage.removeItem(FAILOVER_CHAIN_STORAGE_KEY);
+  }
+};
+
+// Local Model Settings (Ollama, llama.cpp, LM Studio or anything else speaking OpenAI chat-completions)
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+export interface LocalModelSettings {
+  baseUrl: string;
+  model: string;
+}
+
+export const getLocalModelSettings = (): LocalModelSettings => {
+  return {
+    baseUrl: localStorage.getItem(LOCAL_BASE_URL_STORAGE_KEY) || DEFAULT_LOCAL_BASE_URL,
+    model: localStorage.getItem(LOCAL_MODEL_STORAGE_KEY) || DEFAULT_LOCAL_MODEL
+  };
+};
+
+export const setLocalModelSettings = (settings: LocalModelSettings): void => {
+  const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+  if (baseUrl) {
+    localStorage.setItem(LOCAL_BASE_URL_STORAGE_KEY, baseUrl);
+  } else {
+    localStorage.removeItem(LOCAL_BASE_URL_STORAGE_KEY);
+  }
+  if (settings.model.trim()) {
+    localStorage.setItem(LOCAL_MODEL_STORAGE_KEY, settings.model.trim());
+  } else {
+    localStorage.removeItem(LOCAL_MODEL_STORAGE_KEY);
+  }
+};
+
+// OpenAI-style chat-completions endpoint, shared by OpenAI and local servers
+interface ChatCompletionsEndpoint {
+  provider: AIProvider;
+  label: string;
+  url: string;
+  apiKey: string;
+  model: string;
+  // Local servers vary too much in function-calling support to offer the Chronicler tools
+  supportsTools: boolean;
+}
+
+const openaiEndpoint = (role: ModelRole): ChatCompletionsEndpoint => ({
+  provider: AIProvider.OPENAI,
+  label: 'OpenAI',
+  url: 'https://api.openai.com/v1/chat/completions',
+  apiKey: getProviderKey(AIProvider.OPENAI),
+  model: getSelectedModel(AIProvider.OPENAI, role),
+  supportsTools: true
+});
+
+const localEndpoint = (): ChatCompletionsEndpoint => {
+  const settings = getLocalModelSettings();
+  return {
+    provider: AIProvider.LOCAL,
+    label: 'Local model',
+    url: `${settings.baseUrl}/chat/completions`,
+    apiKey: getProviderKey(AIProvider.LOCAL),
+    model: settings.model,
+    supportsTools: false
+  };
+};
+
+const chatCompletionsHeaders = (endpoint: ChatCompletionsEndpoint): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (endpoint.apiKey || endpoint.provider === AIProvider.OPENAI) {
+    headers['Authorization'] = `Bearer ${endpoint.apiKey}`;
+  }
+  return headers;
+};
+
 // Gemini Functions
-const geminiGenerateStory = async (prompt: string): Promise<ServiceResponse<GameState>> => {
+const GEMINI_STORY_CONFIG = {
+  responseMimeType: "application/json",
+  responseSchema: {
+    type: Type.OBJECT,
+    properties: {
+      storyText: { type: Type.STRING },
+      choices: { type: Type.ARRAY, items: { type: Type.STRING } },
+      inventory: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING },
+            name: { type: Type.STRING },
+            quantity: { type: Type.INTEGER },
+            description: { type: Type.STRING },
+            tags: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["id", "name", "quantity"]
+        }
+      },
+      currentQuest: { type: Type.STRING },
+      quests: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING },
+            title: { type: Type.STRING },
+            objectives: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  text: { type: Type.STRING },
+                  done: { type: Type.BOOLEAN }
+                },
+                required: ["text", "done"]
+              }
+            },
+            status: { type: Type.STRING, enum: ["active", "completed", "failed", "abandoned"] }
+          },
+          required: ["id", "title", "objectives", "status"]
+        }
+      },
+      visualPrompt: { type: Type.STRING },
+      worldStyle: { type: Type.STRING },
+      genre: { type: Type.STRING },
+      memoryNotes: {
+        type: Type.OBJECT,
+        properties: {
+          summary: { type: Type.STRING },
+          npcs: { type: Type.ARRAY, items: { type: Type.STRING } },
+          places: { type: Type.ARRAY, items: { type: Type.STRING } },
+          promises: { type: Type.ARRAY, items: { type: Type.STRING } },
+          resolved: { type: Type.ARRAY, items: { type: Type.STRING } }
+        }
+      },
+      actionCheck: {
+        type: Type.OBJECT,
+        properties: {
+          plausible: { type: Type.BOOLEAN },
+          reason: { type: Type.STRING }
+        }
+      },
+      inventoryChanges: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            reason: { type: Type.STRING }
+          },
+          required: ["name", "reason"]
+        }
+      },
+      character: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          hp: { type: Type.INTEGER },
+          maxHp: { type: Type.INTEGER },
+          attributes: {
+            type: Type.OBJECT,
+            properties: {
+              might: { type: Type.INTEGER },
+              agility: { type: Type.INTEGER },
+              wits: { type: Type.INTEGER },
+              presence: { type: Type.INTEGER }
+            }
+          }
+        }
+      },
+      skillChecks: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            choice: { type: Type.STRING },
+            attribute: { type: Type.STRING, enum: ["might", "agility", "wits", "presence"] },
+            difficulty: { type: Type.INTEGER }
+          },
+          required: ["choice", "attribute", "difficulty"]
+        }
+      }
+    },
+    required: ["storyText", "choices", "inventory", "currentQuest", "visualPrompt", "worldStyle", "genre"],
+    // storyText first so it can be shown while the rest is still streaming
+    propertyOrdering: ["storyText", "choices", "inventory", "currentQuest", "quests", "visualPrompt", "worldStyle", "genre", "character", "skillChecks", "inventoryChanges", "memoryNotes", "actionCheck"]
+  }
+};
+
+const geminiGenerateStory = async (prompt: string, options: RequestOptions = {}): Promise<ServiceResponse<string>> => {
+  const model = getSelectedModel(AIProvider.GEMINI, 'text');
   const ai = new GoogleGenAI({ apiKey: getProviderKey(AIProvider.GEMINI) });
   
   const response = await ai.models.generateContent({
-    model: 'gemini-2.0-flash-exp',
+    model,
     contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          storyText: { type: Type.STRING },
-          choices: { type: Type.ARRAY, items: { type: Type.STRING } },
-          inventory: { type: Type.ARRAY, items: { type: Type.STRING } },
-          currentQuest: { type: Type.STRING },
-          visualPrompt: { type: Type.STRING },
-          worldStyle: { type: Type.STRING },
-          genre: { type: Type.STRING }
-        },
-        required: ["storyText", "choices", "inventory", "currentQuest", "visualPrompt", "worldStyle", "genre"]
-      }
-    }
+    config: { ...GEMINI_STORY_CONFIG, abortSignal: options.signal }
   });
 
+  if (response.promptFeedback?.blockReason) {
+    throw new ContentBlockedError(AIProvider.GEMINI, String(response.promptFeedback.blockReason));
+  }
+
   const metadata = response.usageMetadata;
   return {
-    data: JSON.parse(response.text || '{}') as GameState,
+    data: response.text || '',
+    usage: {
+      inputTokens: metadata?.promptTokenCount || 0,
+      outputTokens: metadata?.candidatesTokenCount || 0,
+      provider: AIProvider.GEMINI,
+      model
+    }
+  };
+};
+
+const geminiStreamStory = async (prompt: string, onStoryText: (text: string) => void, options: RequestOptions = {}): Promise<ServiceResponse<string>> => {
+  const model = getSelectedModel(AIProvider.GEMINI, 'text');
+  const ai = new GoogleGenAI({ apiKey: getProviderKey(AIProvider.GEMINI) });
+
+  const stream = await ai.models.generateContentStream({
+    model,
+    contents: prompt,
+    config: { ...GEMINI_STORY_CONFIG, abortSignal: options.signal }
+  });
+
+  let raw = '';
+  let metadata;
+  for await (const chunk of stream) {
+    raw += chunk.text || '';
+    metadata = chunk.usageMetadata || metadata;
+    onStoryText(extractPartialStoryText(raw));
+  }
+
+  return {
+    data: raw,
     usage: {
       inputTokens: metadata?.promptTokenCount || 0,
       outputTokens: metadata?.candidatesTokenCount || 0,
-      provider: AIProvider.GEMINI
+      provider: AIProvider.GEMINI,
+      model
     }
   };
 };
 
-const geminiGenerateImage = async (prompt: string, style: string, quality: 'standard' | 'fast' = 'standard'): Promise<ServiceResponse<string | undefined>> => {
+const geminiGenerateImage = async (
+  prompt: string,
+  style: string,
+  quality: ImageQuality = 'standard',
+  requested: ImageFormat = DEFAULT_IMAGE_FORMAT,
+  options: RequestOptions = {}
+): Promise<ServiceResponse<string | undefined>> => {
+  const { model: info, format } = resolveImageModel(AIProvider.GEMINI, requested)!;
+  const model = info.id;
+  // Only the newer image models take imageConfig, and only the Pro one takes a size
+  const imageConfig = info.image!.aspectRatios.length > 1
+    ? { aspectRatio: format.aspectRatio, ...(info.image!.resolutions.length > 1 ? { imageSize: format.resolution } : {}) }
+    : undefined;
   const ai = new GoogleGenAI({ apiKey: getProviderKey(AIProvider.GEMINI) });
   const fullPrompt = quality === 'fast'
     ? `Simple ${style} style: ${prompt}. Minimal detail, basic colors.`
     : `Art Style: ${style}. Scene: ${prompt}. Cinematic lighting, evocative mood.`;
   
   const response = await ai.models.generateContent({
-    model: 'gemini-2.0-flash-exp',
-    contents: { parts: [{ text: fullPrompt }] }
+    model,
+    contents: { parts: [{ text: fullPrompt }] },
+    config: { abortSignal: options.signal, ...(imageConfig ? { imageConfig } : {}) }
   });
 
   let imageData: string | undefined;
@@ -143,357 +413,646 @@ const geminiGenerateImage = async (prompt: string, style: string, quality: 'stan
     usage: {
       inputTokens: metadata?.promptTokenCount || 0,
       outputTokens: metadata?.candidatesTokenCount || 0,
-      isPremium: false,
-      provider: AIProvider.GEMINI
+      isPremium: format.resolution !== ImageSize.K1,
+      provider: AIProvider.GEMINI,
+      model,
+      imageSize: format.resolution
     }
   };
 };
 
 // OpenAI Functions
-const openaiGenerateStory = async (prompt: string): Promise<ServiceResponse<GameState>> => {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+const chatCompletionsGenerateStory = async (endpoint: ChatCompletionsEndpoint, prompt: string, options: RequestOptions = {}): Promise<ServiceResponse<string>> => {
+  const response = await fetch(endpoint.url, {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${getProviderKey(AIProvider.OPENAI)}`,
-      'Content-Type': 'application/json',
-    },
+    signal: options.signal,
+    headers: chatCompletionsHeaders(endpoint),
     body: JSON.stringify({
-      model: 'gpt-4o-mini',
+      model: endpoint.model,
       messages: [{ role: 'user', content: prompt }],
       response_format: { type: 'json_object' }
     })
   });
 
-  if (!response.ok) throw new Error(`OpenAI API error: ${response.statusText}`);
+  await ensureOk(response, endpoint.provider);
   
   const data = await response.json();
-  console.log('OpenAI response:', data); // Debug log
-  let gameState: GameState;
-  
-  try {
-    const parsed = JSON.parse(data.choices[0].message.content);
-    // Ensure all required fields are present
-    gameState = {
-      storyText: parsed.storyText || 'The story begins...',
-      choices: parsed.choices || ['Continue'],
-      inventory: parsed.inventory || [],
-      currentQuest: parsed.currentQuest || 'Unknown quest',
-      visualPrompt: parsed.visualPrompt || 'A mysterious scene',
-      worldStyle: parsed.worldStyle || 'fantasy',
-      genre: parsed.genre || 'Fantasy'
-    };
-  } catch (parseError) {
-    console.error('Failed to parse OpenAI response:', parseError);
-    throw new Error('Invalid response format from OpenAI');
+  if (data.choices?.[0]?.finish_reason === 'content_filter') {
+    throw new ContentBlockedError(endpoint.provider, 'content_filter');
   }
   
   return {
-    data: gameState,
+    data: data.choices?.[0]?.message?.content || '',
+    usage: {
+      // Some local servers omit usage entirely
+      inputTokens: data.usage?.prompt_tokens || 0,
+      outputTokens: data.usage?.completion_tokens || 0,
+      provider: endpoint.provider,
+      model: endpoint.model
+    }
+  };
+};
+
+const chatCompletionsStreamStory = async (
+  endpoint: ChatCompletionsEndpoint,
+  prompt: string,
+  onStoryText: (text: string) => void,
+  options: RequestOptions = {}
+): Promise<ServiceResponse<string>> => {
+  const response = await fetch(endpoint.url, {
+    method: 'POST',
+    signal: options.signal,
+    headers: chatCompletionsHeaders(endpoint),
+    body: JSON.stringify({
+      model: endpoint.model,
+      messages: [{ role: 'user', content: prompt }],
+      response_format: { type: 'json_object' },
+      stream: true,
+      stream_options: { include_usage: true }
+    })
+  });
+
+  await ensureOk(response, endpoint.provider);
+
+  let raw = '';
+  let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+  await readSSE(response, ({ data }) => {
+    if (data === '[DONE]') return;
+    const chunk = JSON.parse(data);
+    usage = chunk.usage || usage;
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      raw += delta;
+      onStoryText(extractPartialStoryText(raw));
+    }
+  });
+
+  return {
+    data: raw,
     usage: {
-      inputTokens: data.usage.prompt_tokens,
-      outputTokens: data.usage.completion_tokens,
-      provider: AIProvider.OPENAI
+      inputTokens: usage?.prompt_tokens || 0,
+      outputTokens: usage?.completion_tokens || 0,
+      provider: endpoint.provider,
+      model: endpoint.model
     }
   };
 };
 
-const openaiGenerateImage = async (prompt: string, style: string, quality: 'standard' | 'fast' = 'standard'): Promise<ServiceResponse<string | undefined>> => {
+const DALLE_SIZES: Record<AspectRatio, string> = {
+  '1:1': '1024x1024',
+  '16:9': '1792x1024',
+  '9:16': '1024x1792'
+};
+
+const openaiGenerateImage = async (
+  prompt: string,
+  style: string,
+  quality: ImageQuality = 'standard',
+  requested: ImageFormat = DEFAULT_IMAGE_FORMAT,
+  options: RequestOptions = {}
+): Promise<ServiceResponse<string | undefined>> => {
+  const { model: info, format } = resolveImageModel(AIProvider.OPENAI, requested)!;
+  const model = info.id;
+  const size = DALLE_SIZES[format.aspectRatio];
+  const dalleQuality = format.resolution === ImageSize.K1 ? 'standard' : 'hd';
   const fullPrompt = quality === 'fast' 
     ? `Simple ${style} style: ${prompt}. Minimal detail, flat colors.`
     : `Art Style: ${style}. Scene: ${prompt}. Cinematic lighting, evocative mood.`;
   
   const response = await fetch('https://api.openai.com/v1/images/generations', {
     method: 'POST',
+    signal: options.signal,
     headers: {
       'Authorization': `Bearer ${getProviderKey(AIProvider.OPENAI)}`,
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
-      model: 'dall-e-3',
+      model,
       prompt: fullPrompt,
-      size: quality === 'fast' ? '1024x1024' : '1024x1024',
-      quality: 'standard',
-      style: quality === 'fast' ? 'natural' : 'vivid'
+      size,
+      // Result URLs expire and send no CORS headers, so the browser could not archive them
+      response_format: 'b64_json',
+      // DALL·E 2 rejects the quality and style options
+      ...(model === 'dall-e-2' ? {} : {
+        quality: dalleQuality,
+        style: quality === 'fast' ? 'natural' : 'vivid'
+      })
     })
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('OpenAI API error response:', errorText); // Debug log
-    throw new Error(`OpenAI API error: ${response.statusText} - ${errorText}`);
-  }
+  await ensureOk(response, AIProvider.OPENAI);
   
   const data = await response.json();
-  console.log('OpenAI image response:', data); // Debug log
   
   return {
-    data: data.data[0].url,
+    data: `data:image/png;base64,${data.data[0].b64_json}`,
     usage: {
       inputTokens: 0,
       outputTokens: 0,
       isPremium: true,
-      provider: AIProvider.OPENAI
+      provider: AIProvider.OPENAI,
+      model,
+      imageSize: model === 'dall-e-2' ? size : `${dalleQuality} ${size}`
     }
   };
 };
 
-// Claude Functions (text only)
-const claudeGenerateStory = async (prompt: string): Promise<ServiceResponse<GameState>> => {
+// Claude Functions
+// Claude has no JSON mode; starting its turn with an open brace keeps it from adding prose first
+const CLAUDE_JSON_PREFILL = '{';
+const CLAUDE_JSON_MESSAGES = (prompt: string) => [
+  { role: 'user', content: prompt },
+  { role: 'assistant', content: CLAUDE_JSON_PREFILL }
+];
+
+const claudeGenerateStory = async (prompt: string, options: RequestOptions = {}): Promise<ServiceResponse<string>> => {
+  const model = getSelectedModel(AIProvider.CLAUDE, 'text');
   const response = await fetch('https://api.anthropic.com/v1/messages', {
     method: 'POST',
+    signal: options.signal,
     headers: {
       'x-api-key': getProviderKey(AIProvider.CLAUDE),
       'Content-Type': 'application/json',
       'anthropic-version': '2023-06-01'
     },
     body: JSON.stringify({
-      model: 'claude-3-5-haiku-20241022',
+      model,
       max_tokens: 1000,
-      messages: [{ role: 'user', content: prompt }]
+      messages: CLAUDE_JSON_MESSAGES(prompt)
     })
   });
 
-  if (!response.ok) throw new Error(`Claude API error: ${response.statusText}`);
+  await ensureOk(response, AIProvider.CLAUDE);
   
   const data = await response.json();
-  console.log('Claude response:', data); // Debug log
-  let gameState: GameState;
-  
-  try {
-    const parsed = JSON.parse(data.content[0].text);
-    // Ensure all required fields are present
-    gameState = {
-      storyText: parsed.storyText || 'The story begins...',
-      choices: parsed.choices || ['Continue'],
-      inventory: parsed.inventory || [],
-      currentQuest: parsed.currentQuest || 'Unknown quest',
-      visualPrompt: parsed.visualPrompt || 'A mysterious scene',
-      worldStyle: parsed.worldStyle || 'fantasy',
-      genre: parsed.genre || 'Fantasy'
-    };
-  } catch (parseError) {
-    console.error('Failed to parse Claude response:', parseError);
-    throw new Error('Invalid response format from Claude');
+  if (data.stop_reason === 'refusal') {
+    throw new ContentBlockedError(AIProvider.CLAUDE, 'refusal');
   }
   
   return {
-    data: gameState,
+    data: CLAUDE_JSON_PREFILL + (data.content?.[0]?.text || ''),
     usage: {
       inputTokens: data.usage.input_tokens,
       outputTokens: data.usage.output_tokens,
-      provider: AIProvider.CLAUDE
+      provider: AIProvider.CLAUDE,
+      model
     }
   };
 };
 
-const claudeGenerateImage = async (): Promise<ServiceResponse<string | undefined>> => {
-  // Claude doesn't support image generation, return placeholder
+const claudeStreamStory = async (prompt: string, onStoryText: (text: string) => void, options: RequestOptions = {}): Promise<ServiceResponse<string>> => {
+  const model = getSelectedModel(AIProvider.CLAUDE, 'text');
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    signal: options.signal,
+    headers: {
+      'x-api-key': getProviderKey(AIProvider.CLAUDE),
+      'Content-Type': 'application/json',
+      'anthropic-version': '2023-06-01'
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: 1000,
+      stream: true,
+      messages: CLAUDE_JSON_MESSAGES(prompt)
+    })
+  });
+
+  await ensureOk(response, AIProvider.CLAUDE);
+
+  let raw = CLAUDE_JSON_PREFILL;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  await readSSE(response, ({ data }) => {
+    const event = JSON.parse(data);
+    if (event.type === 'message_start') {
+      inputTokens = event.message?.usage?.input_tokens || 0;
+    } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      raw += event.delta.text;
+      onStoryText(extractPartialStoryText(raw));
+    } else if (event.type === 'message_delta') {
+      outputTokens = event.usage?.output_tokens || outputTokens;
+    } else if (event.type === 'error') {
+      // Mid-stream failures arrive as events rather than HTTP statuses
+      throw classifyHttpError(AIProvider.CLAUDE, event.error?.type === 'rate_limit_error' ? 429 : 529, JSON.stringify(event.error));
+    }
+  });
+
   return {
-    data: undefined,
+    data: raw,
     usage: {
-      inputTokens: 0,
-      outputTokens: 0,
-      provider: AIProvider.CLAUDE
+      inputTokens,
+      outputTokens,
+      provider: AIProvider.CLAUDE,
+      model
     }
   };
 };
 
+// Chat Functions
+const chroniclerInstruction = (gameContext: GameState, recentBeats: ChatRequestOptions['recentBeats'] = []): string => {
+  return renderPrompt('chronicler', {
+    genre: gameContext.genre,
+    quest: gameContext.currentQuest,
+    inventory: formatInventory(gameContext.inventory || []),
+    recentBeats: formatRecentBeats(recentBeats)
+  }).text;
+};
+
+const CHAT_FALLBACK_REPLY = "I apologize, my vision is clouded...";
+
+const geminiChat = async (message: string, gameContext: GameState, options: ChatRequestOptions = {}): Promise<ServiceResponse<string>> => {
+  const model = getSelectedModel(AIProvider.GEMINI, 'chat');
+  const ai = new GoogleGenAI({ apiKey: getProviderKey(AIProvider.GEMINI) });
+  const { toolContext } = options;
+  const config = {
+    systemInstruction: chroniclerInstruction(gameContext, options.recentBeats),
+    abortSignal: options.signal,
+    ...(toolContext ? { tools: [{ functionDeclarations: geminiFunctionDeclarations() }] } : {})
+  };
+  const chat = ai.chats.create({
+    model,
+    history: (options.history || []).map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+    config
+  });
+
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let response = await chat.sendMessage({ message });
+  for (let round = 1; ; round++) {
+    inputTokens += response.usageMetadata?.promptTokenCount || 0;
+    outputTokens += response.usageMetadata?.candidatesTokenCount || 0;
+    const calls = response.functionCalls || [];
+    if (!toolContext || calls.length === 0 || round > MAX_TOOL_ROUNDS) break;
+    response = await chat.sendMessage({
+      message: calls.map(call => ({
+        functionResponse: { id: call.id, name: call.name, response: JSON.parse(runChroniclerTool(call.name || '', call.args, toolContext)) }
+      })),
+      // The last round withholds the tools so the model has to answer. A per-message config
+      // replaces the chat's, so the rest of it is repeated.
+      ...(round === MAX_TOOL_ROUNDS ? { config: { ...config, toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } } } : {})
+    });
+  }
+
+  return {
+    data: response.text || CHAT_FALLBACK_REPLY,
+    usage: { inputTokens, outputTokens, provider: AIProvider.GEMINI, model }
+  };
+};
+
+// The parts of the chat-completions and Anthropic message formats the Chronicler's tool loops use
+interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIChatMessage =
+  | { role: 'system'; content: string }
+  | ChatTurn
+  | { role: 'assistant'; content: string | null; tool_calls: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface AnthropicTextBlock {
+  type: 'text';
+  text: string;
+}
+
+interface AnthropicToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+interface AnthropicToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+}
+
+type AnthropicContentBlock = AnthropicTextBlock | AnthropicToolUseBlock | AnthropicToolResultBlock;
+
+type AnthropicMessage = ChatTurn | { role: 'user' | 'assistant'; content: AnthropicContentBlock[] };
+
+// Saved turns in the role names shared by chat-completions and Anthropic messages
+const chatTurns = (history: ChatRequestOptions['history'] = []): ChatTurn[] => {
+  return history.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text }));
+};
+
+const chatCompletionsChat = async (endpoint: ChatCompletionsEndpoint, message: string, gameContext: GameState, options: ChatRequestOptions = {}): Promise<ServiceResponse<string>> => {
+  const toolContext = endpoint.supportsTools ? options.toolContext : undefined;
+  const messages: OpenAIChatMessage[] = [
+    { role: 'system', content: chroniclerInstruction(gameContext, options.recentBeats) },
+    ...chatTurns(options.history),
+    { role: 'user', content: message }
+  ];
+
+  let inputTokens = 0;
+  let outputTokens = 0;
+  for (let round = 0; ; round++) {
+    // The last round withholds the tools so the model has to answer
+    const offerTools = toolContext && round < MAX_TOOL_ROUNDS;
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      signal: options.signal,
+      headers: chatCompletionsHeaders(endpoint),
+      body: JSON.stringify({
+        model: endpoint.model,
+        messages,
+        ...(offerTools ? { tools: openaiTools() } : {})
+      })
+    });
+
+    await ensureOk(response, endpoint.provider);
+    const data = await response.json();
+    inputTokens += data.usage?.prompt_tokens || 0;
+    outputTokens += data.usage?.completion_tokens || 0;
+
+    const reply = data.choices[0].message;
+    const calls: OpenAIToolCall[] = reply.tool_calls || [];
+    if (!offerTools || calls.length === 0) {
+      return {
+        data: reply.content || CHAT_FALLBACK_REPLY,
+        usage: { inputTokens, outputTokens, provider: endpoint.provider, model: endpoint.model }
+      };
+    }
+
+    messages.push({ role: 'assistant', content: reply.content ?? null, tool_calls: calls });
+    for (const call of calls) {
+      messages.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: runChroniclerTool(call.function.name, parseToolArguments(call.function.arguments), toolContext)
+      });
+    }
+  }
+};
+
+const claudeChat = async (message: string, gameContext: GameState, options: ChatRequestOptions = {}): Promise<ServiceResponse<string>> => {
+  const model = getSelectedModel(AIProvider.CLAUDE, 'chat');
+  const { toolContext } = options;
+  const messages: AnthropicMessage[] = [...chatTurns(options.history), { role: 'user', content: message }];
+
+  let inputTokens = 0;
+  let outputTokens = 0;
+  for (let round = 0; ; round++) {
+    const offerTools = toolContext && round < MAX_TOOL_ROUNDS;
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'x-api-key': getProviderKey(AIProvider.CLAUDE),
+        'Content-Type': 'application/json',
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: 1000,
+        system: chroniclerInstruction(gameContext, options.recentBeats),
+        messages,
+        // Past tool_use blocks must stay resolvable, so the definitions are always sent once offered
+        ...(toolContext ? { tools: anthropicTools() } : {}),
+        ...(toolContext && !offerTools ? { tool_choice: { type: 'none' } } : {})
+      })
+    });
+
+    await ensureOk(response, AIProvider.CLAUDE);
+    const data = await response.json();
+    inputTokens += data.usage?.input_tokens || 0;
+    outputTokens += data.usage?.output_tokens || 0;
+
+    const blocks: AnthropicContentBlock[] = data.content || [];
+    const calls = blocks.filter((block): block is AnthropicToolUseBlock => block.type === 'tool_use');
+    if (!offerTools || calls.length === 0) {
+      const text = blocks.filter((block): block is AnthropicTextBlock => block.type === 'text').map(block => block.text).join('\n').trim();
+      return {
+        data: text || CHAT_FALLBACK_REPLY,
+        usage: { inputTokens, outputTokens, provider: AIProvider.CLAUDE, model }
+      };
+    }
+
+    messages.push({ role: 'assistant', content: blocks });
+    messages.push({
+      role: 'user',
+      content: calls.map((call): AnthropicToolResultBlock => ({
+        type: 'tool_result',
+        tool_use_id: call.id,
+        content: runChroniclerTool(call.name, parseToolArguments(call.input), toolContext)
+      }))
+    });
+  }
+};
+
+// Provider Adapters
+registerProvider({
+  id: AIProvider.GEMINI,
+  label: 'Gemini',
+  capabilities: { story: true, image: true, chat: true, streaming: true },
+  generateStoryText: geminiGenerateStory,
+  streamStoryText: geminiStreamStory,
+  generateImage: geminiGenerateImage,
+  getChatResponse: geminiChat,
+  handleError: handleGeminiError
+});
+
+registerProvider({
+  id: AIProvider.OPENAI,
+  label: 'OpenAI',
+  capabilities: { story: true, image: true, chat: true, streaming: true },
+  generateStoryText: (prompt, options) => chatCompletionsGenerateStory(openaiEndpoint('text'), prompt, options),
+  streamStoryText: (prompt, onStoryText, options) => chatCompletionsStreamStory(openaiEndpoint('text'), prompt, onStoryText, options),
+  generateImage: openaiGenerateImage,
+  getChatResponse: (message, gameContext, options) => chatCompletionsChat(openaiEndpoint('chat'), message, gameContext, options),
+  handleError: handleOpenAIError
+});
+
+// Claude has no image model, so it declares that rather than returning an empty image
+registerProvider({
+  id: AIProvider.CLAUDE,
+  label: 'Claude',
+  capabilities: { story: true, image: false, chat: true, streaming: true },
+  generateStoryText: claudeGenerateStory,
+  streamStoryText: claudeStreamStory,
+  getChatResponse: claudeChat,
+  handleError: handleClaudeError
+});
+
+registerProvider({
+  id: AIProvider.LOCAL,
+  label: 'Local',
+  capabilities: { story: true, image: false, chat: true, streaming: false },
+  generateStoryText: (prompt, options) => chatCompletionsGenerateStory(localEndpoint(), prompt, options),
+  getChatResponse: (message, gameContext, options) => chatCompletionsChat(localEndpoint(), message, gameContext, options),
+  handleError: handleLocalError
+});
+
+// Every provider call gets the same timeout, retry and error-normalization treatment
+// call receives the signal to send with its request: options.signal combined with the timeout.
+const runWithPolicy = <T>(adapter: ProviderAdapter, timeoutMs: number, options: RequestOptions, call: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  return withRetry(async () => {
+    if (options.signal?.aborted) throw new CancelledError(adapter.id);
+    try {
+      return await withAbort(withTimeout(call, timeoutMs, adapter.id, options.signal), options.signal, adapter.id);
+    } catch (error) {
+      return adapter.handleError(error);
+    }
+  });
+};
+
+// The selected provider first, then each fallback that is configured and can do the job
+export const resolveProviderChain = (primary: AIProvider, capability: keyof ProviderCapabilities): AIProvider[] => {
+  const fallbacks = getFailoverChain().filter(provider =>
+    provider !== primary && hasApiKey(provider) && getProviderCapabilities(provider)[capability]
+  );
+  return [primary, ...fallbacks];
+};
+
+const withFailover = async <T>(
+  primary: AIProvider,
+  capability: keyof ProviderCapabilities,
+  call: (adapter: ProviderAdapter) => Promise<T>
+): Promise<T> => {
+  const chain = resolveProviderChain(primary, capability);
+  let primaryError: unknown;
+  for (const provider of chain) {
+    try {
+      return await call(getProviderAdapter(provider));
+    } catch (error) {
+      // A bad key on the selected provider is the player's to fix, so don't paper over it
+      if (provider === primary && error instanceof AuthError) throw error;
+      if (error instanceof CancelledError) throw error;
+      if (provider === primary) primaryError = error;
+      if (chain.length > 1) console.warn(`${provider} failed, trying next provider in failover chain`, error);
+    }
+  }
+  throw primaryError;
+};
+
+const addUsage = <T>(response: ServiceResponse<T>, extra: ServiceResponse<unknown>): ServiceResponse<T> => ({
+  ...response,
+  usage: {
+    ...response.usage,
+    inputTokens: response.usage.inputTokens + extra.usage.inputTokens,
+    outputTokens: response.usage.outputTokens + extra.usage.outputTokens
+  }
+});
+
+// Turns a raw model reply into a validated GameState. An invalid reply gets exactly one repair
+// request; whatever is still wrong after that falls back to defaults.
+const finalizeStory = async (adapter: ProviderAdapter, reply: ServiceResponse<string>, options: RequestOptions): Promise<ServiceResponse<GameState>> => {
+  const firstPass = validateGameState(extractJson(reply.data));
+  if (firstPass.state) return { ...reply, data: firstPass.state };
+
+  console.warn(`${adapter.label} returned an invalid game state:\n${formatIssues(firstPass.issues)}`);
+  let repaired: ServiceResponse<string> | undefined;
+  try {
+    repaired = await runWithPolicy(adapter, REQUEST_TIMEOUT_MS.story, options, signal => adapter.generateStoryText(buildRepairPrompt(reply.data, firstPass.issues), { ...options, signal }));
+  } catch (error) {
+    if (error instanceof CancelledError) throw error;
+    console.error(`${adapter.label} repair request failed:`, error);
+  }
+
+  const total = repaired ? addUsage(reply, repaired) : reply;
+  const repairedJson = repaired ? extractJson(repaired.data) : undefined;
+  const secondPass = repairedJson ? validateGameState(repairedJson) : firstPass;
+  if (secondPass.state) return { ...total, data: secondPass.state };
+
+  if (!repairedJson && !extractJson(reply.data)) {
+    throw new MalformedResponseError(adapter.id, `no JSON object in ${adapter.label} reply`);
+  }
+  console.warn(`Falling back to defaults for:\n${formatIssues(secondPass.issues)}`);
+  return { ...total, data: applyDefaults({ ...firstPass.partial, ...secondPass.partial }) };
+};
+
 // Main Export Functions
 export const generateStoryBeat = async (
   prompt: string,
-  provider: AIProvider = AIProvider.GEMINI
+  provider: AIProvider = AIProvider.GEMINI,
+  options: RequestOptions = {}
 ): Promise<ServiceResponse<GameState>> => {
-  try {
-    switch (provider) {
-      case AIProvider.GEMINI:
-        return await geminiGenerateStory(prompt);
-      case AIProvider.OPENAI:
-        return await openaiGenerateStory(prompt);
-      case AIProvider.CLAUDE:
-        return await claudeGenerateStory(prompt);
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
-    }
-  } catch (error) {
-    switch (provider) {
-      case AIProvider.GEMINI:
-        return handleGeminiError(error);
-      case AIProvider.OPENAI:
-        return handleOpenAIError(error);
-      case AIProvider.CLAUDE:
-        return handleClaudeError(error);
-      default:
-        throw error;
-    }
-  }
+  return withCassette('story', prompt, provider, () =>
+    withFailover(provider, 'story', adapter =>
+      runWithPolicy(adapter, REQUEST_TIMEOUT_MS.story, options, signal => adapter.generateStoryText(prompt, { ...options, signal }))
+        .then(reply => finalizeStory(adapter, reply, options))
+    )
+  );
+};
+
+// Streams storyText through onStoryText as it arrives, then resolves with the complete GameState.
+// Providers without streaming support fall back to a single request.
+export const generateStoryBeatStream = async (
+  prompt: string,
+  provider: AIProvider,
+  onStoryText: (text: string) => void,
+  options: RequestOptions = {}
+): Promise<ServiceResponse<GameState>> => {
+  const response = await withCassette('story', prompt, provider, () =>
+    withFailover(provider, 'story', adapter => {
+      const stream = adapter.capabilities.streaming ? adapter.streamStoryText : undefined;
+      return runWithPolicy(adapter, REQUEST_TIMEOUT_MS.story, options, signal => stream
+        ? stream(prompt, onStoryText, { ...options, signal })
+        : adapter.generateStoryText(prompt, { ...options, signal }))
+        .then(reply => finalizeStory(adapter, reply, options));
+    })
+  );
+  onStoryText(response.data.storyText);
+  return response;
 };
 
 export const generateImage = async (
   prompt: string,
   style: string,
   provider: AIProvider = AIProvider.GEMINI,
-  quality: 'standard' | 'fast' = 'standard'
+  quality: ImageQuality = 'standard',
+  options: ImageRequestOptions = {}
 ): Promise<ServiceResponse<string | undefined>> => {
-  try {
-    switch (provider) {
-      case AIProvider.GEMINI:
-        return await geminiGenerateImage(prompt, style, quality);
-      case AIProvider.OPENAI:
-        return await openaiGenerateImage(prompt, style, quality);
-      case AIProvider.CLAUDE:
-        return await claudeGenerateImage();
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
-    }
-  } catch (error) {
-    switch (provider) {
-      case AIProvider.GEMINI:
-        return handleGeminiError(error);
-      case AIProvider.OPENAI:
-        return handleOpenAIError(error);
-      case AIProvider.CLAUDE:
-        return handleClaudeError(error);
-      default:
-        throw error;
-    }
+  const format = options.format || DEFAULT_IMAGE_FORMAT;
+  const adapter = getProviderAdapter(provider);
+  if (!adapter.capabilities.image || !adapter.generateImage) {
+    throw new Error(`${adapter.label} does not support image generation`);
   }
+  const generate = adapter.generateImage;
+  return withCassette('image', `${style}\n${quality}\n${format.resolution} ${format.aspectRatio}\n${prompt}`, provider, () =>
+    runWithPolicy(adapter, REQUEST_TIMEOUT_MS.image, options, signal => generate(prompt, style, quality, format, { ...options, signal }))
+  );
 };
 
+// options.history is the whole saved conversation; each provider gets it trimmed to its own budget
 export const getChatResponse = async (
   message: string,
   gameContext: GameState,
-  provider: AIProvider = AIProvider.GEMINI
+  provider: AIProvider = AIProvider.GEMINI,
+  options: ChatRequestOptions = {}
 ): Promise<ServiceResponse<string>> => {
-  try {
-    switch (provider) {
-      case AIProvider.GEMINI:
-        const geminiAi = new GoogleGenAI({ apiKey: getProviderKey(AIProvider.GEMINI) });
-        const geminiChat = geminiAi.chats.create({
-          model: 'gemini-2.0-flash-exp',
-          config: {
-            systemInstruction: `You are the Chronicler, a wise and helpful sidekick in this infinite adventure game. 
-            The current genre is ${gameContext.genre}. The player's quest is: ${gameContext.currentQuest}.
-            Their inventory includes: ${(gameContext.inventory || []).join(', ')}.
-            If the genre is '80s Sci-Fi Horror', speak with 80s slang like 'rad', 'bogus', or 'tubular' occasionally.`
-          }
-        });
-        const geminiResponse = await geminiChat.sendMessage({ message });
-        const geminiMetadata = geminiResponse.usageMetadata;
-        return {
-          data: geminiResponse.text || "I apologize, my vision is clouded...",
-          usage: {
-            inputTokens: geminiMetadata?.promptTokenCount || 0,
-            outputTokens: geminiMetadata?.candidatesTokenCount || 0,
-            provider: AIProvider.GEMINI
-          }
-        };
-
-      case AIProvider.OPENAI:
-        const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${getProviderKey(AIProvider.OPENAI)}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'gpt-4o-mini',
-            messages: [
-              {
-                role: 'system',
-                content: `You are the Chronicler, a wise and helpful sidekick in this infinite adventure game. 
-                The current genre is ${gameContext.genre}. The player's quest is: ${gameContext.currentQuest}.
-                Their inventory includes: ${(gameContext.inventory || []).join(', ')}.
-                If the genre is '80s Sci-Fi Horror', speak with 80s slang like 'rad', 'bogus', or 'tubular' occasionally.`
-              },
-              { role: 'user', content: message }
-            ]
-          })
-        });
-        
-        if (!openaiResponse.ok) throw new Error(`OpenAI API error: ${openaiResponse.statusText}`);
-        const openaiData = await openaiResponse.json();
-        
-        return {
-          data: openaiData.choices[0].message.content,
-          usage: {
-            inputTokens: openaiData.usage.prompt_tokens,
-            outputTokens: openaiData.usage.completion_tokens,
-            provider: AIProvider.OPENAI
-          }
-        };
-
-      case AIProvider.CLAUDE:
-        const claudeResponse = await fetch('https://api.anthropic.com/v1/messages', {
-          method: 'POST',
-          headers: {
-            'x-api-key': getProviderKey(AIProvider.CLAUDE),
-            'Content-Type': 'application/json',
-            'anthropic-version': '2023-06-01'
-          },
-          body: JSON.stringify({
-            model: 'claude-3-5-haiku-20241022',
-            max_tokens: 1000,
-            system: `You are the Chronicler, a wise and helpful sidekick in this infinite adventure game. 
-            The current genre is ${gameContext.genre}. The player's quest is: ${gameContext.currentQuest}.
-            Their inventory includes: ${(gameContext.inventory || []).join(', ')}.
-            If the genre is '80s Sci-Fi Horror', speak with 80s slang like 'rad', 'bogus', or 'tubular' occasionally.`,
-            messages: [{ role: 'user', content: message }]
-          })
-        });
-        
-        if (!claudeResponse.ok) throw new Error(`Claude API error: ${claudeResponse.statusText}`);
-        const claudeData = await claudeResponse.json();
-        
-        return {
-          data: claudeData.content[0].text,
-          usage: {
-            inputTokens: claudeData.usage.input_tokens,
-            outputTokens: claudeData.usage.output_tokens,
-            provider: AIProvider.CLAUDE
-          }
-        };
-
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
-    }
-  } catch (error) {
-    switch (provider) {
-      case AIProvider.GEMINI:
-        return handleGeminiError(error);
-      case AIProvider.OPENAI:
-        return handleOpenAIError(error);
-      case AIProvider.CLAUDE:
-        return handleClaudeError(error);
-      default:
-        throw error;
-    }
-  }
+  const { history = [], ...rest } = options;
+  const transcript = chatHistoryFor(history, provider).map(turn => `${turn.role}: ${turn.text}`).join('\n');
+  return withCassette('chat', `${chroniclerInstruction(gameContext, options.recentBeats)}\n${transcript}\n${message}`, provider, () =>
+    withFailover(provider, 'chat', adapter => {
+      const adapterOptions = { ...rest, history: chatHistoryFor(history, adapter.id) };
+      return runWithPolicy(adapter, REQUEST_TIMEOUT_MS.chat, options, signal => adapter.getChatResponse(message, gameContext, { ...adapterOptions, signal }));
+    })
+  );
 };
 
+// Prices the request at the model that actually served it; without one, the provider's selected text model.
+// imageSize picks a size-specific image price where the model has one.
 export const calculateEstimatedCost = (
   inputTokens: number, 
   outputTokens: number, 
   images: number, 
   premiumImages: number,
   provider: AIProvider = AIProvider.GEMINI,
-  modelType: 'flash' | 'pro' | 'standard' = 'flash'
+  model?: string,
+  imageSize?: string
 ): number => {
-  let pricing;
-  switch (provider) {
-    case AIProvider.GEMINI:
-      pricing = modelType === 'pro' ? PRICING.GEMINI_PRO : PRICING.GEMINI_FLASH;
-      break;
-    case AIProvider.OPENAI:
-      pricing = modelType === 'pro' ? PRICING.OPENAI_GPT4 : PRICING.OPENAI_GPT3_5;
-      break;
-    case AIProvider.CLAUDE:
-      pricing = modelType === 'pro' ? PRICING.CLAUDE_SONNET : PRICING.CLAUDE_HAIKU;
-      break;
-    default:
-      pricing = PRICING.GEMINI_FLASH;
-  }
-  
-  const textCost = (inputTokens * pricing.input) + (outputTokens * pricing.output);
-  const imageCost = (images * pricing.image) + (premiumImages * pricing.image);
+  const pricing = getModelPricing(provider, model ?? getSelectedModel(provider, 'text'));
+  const textCost = (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1000000;
+  const imageCost = (images + premiumImages) * getImagePrice(pricing, imageSize);
   return textCost + imageCost;
 };
@@ -0,0 +1,223 @@
+import { GameHistoryItem, SaveSlot } from "./types";
+
+// Content-addressed store for scene images. Every image is saved once under the SHA-256 of its
+// bytes, and history items keep a stable "asset:" reference instead of a data URL or an expiring
+// provider URL. IndexedDB holds the bytes in the browser; anywhere else an in-memory backend does.
+
+export const ASSET_REF_PREFIX = 'asset:';
+
+// Least recently viewed scenes are evicted once the store grows past this
+export const MAX_ASSET_BYTES = 250 * 1024 * 1024;
+
+export interface AssetRecord {
+  hash: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+  lastUsed: number;
+  blob: Blob;
+}
+
+export type AssetMeta = Omit<AssetRecord, 'blob'>;
+
+export interface AssetBackend {
+  get: (hash: string) => Promise<AssetRecord | undefined>;
+  put: (record: AssetRecord) => Promise<void>;
+  delete: (hash: string) => Promise<void>;
+  list: () => Promise<AssetMeta[]>;
+}
+
+export interface AssetUsage {
+  assetCount: number;
+  assetBytes: number;
+  // Origin-wide figures from navigator.storage.estimate(), when the browser reports them
+  originUsage?: number;
+  originQuota?: number;
+}
+
+const DB_NAME = 'chronicle-weaver-assets';
+const STORE_NAME = 'images';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const createIndexedDbBackend = (factory: IDBFactory = indexedDB): AssetBackend => {
+  let opening: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!opening) {
+      const request = factory.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'hash' });
+      opening = requestToPromise(request);
+    }
+    return opening;
+  };
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open();
+    return requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    get: hash => withStore('readonly', store => store.get(hash)),
+    put: async record => { await withStore('readwrite', store => store.put(record)); },
+    delete: async hash => { await withStore('readwrite', store => store.delete(hash)); },
+    list: async () => {
+      const records = await withStore<AssetRecord[]>('readonly', store => store.getAll());
+      return records.map(({ blob, ...meta }) => meta);
+    }
+  };
+};
+
+export const createMemoryBackend = (): AssetBackend => {
+  const records = new Map<string, AssetRecord>();
+  return {
+    get: async hash => records.get(hash),
+    put: async record => { records.set(record.hash, record); },
+    delete: async hash => { records.delete(hash); },
+    list: async () => Array.from(records.values()).map(({ blob, ...meta }) => meta)
+  };
+};
+
+let backend: AssetBackend | null = null;
+
+const getBackend = (): AssetBackend => {
+  if (!backend) backend = typeof indexedDB === 'undefined' ? createMemoryBackend() : createIndexedDbBackend();
+  return backend;
+};
+
+// Tests swap in a memory backend
+export const setAssetBackend = (next: AssetBackend | null): void => {
+  backend = next;
+};
+
+export const isAssetRef = (value: string | undefined): value is string => !!value && value.startsWith(ASSET_REF_PREFIX);
+
+export const toAssetRef = (hash: string): string => `${ASSET_REF_PREFIX}${hash}`;
+
+const hashOf = (ref: string): string => ref.slice(ASSET_REF_PREFIX.length);
+
+export const hashBytes = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Gemini returns data URLs; DALL·E returns short-lived URLs that are fetched right away
+const readImage = async (source: string): Promise<{ bytes: Uint8Array; mimeType: string }> => {
+  const dataUrl = source.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (dataUrl) {
+    const [, mimeType = 'application/octet-stream', base64, payload] = dataUrl;
+    const binary = base64 ? atob(payload) : decodeURIComponent(payload);
+    return { bytes: Uint8Array.from(binary, char => char.charCodeAt(0)), mimeType };
+  }
+  const response = await fetch(source);
+  if (!response.ok) throw new Error(`Could not download image (${response.status})`);
+  return {
+    bytes: new Uint8Array(await response.arrayBuffer()),
+    mimeType: response.headers?.get('Content-Type') || 'image/png'
+  };
+};
+
+// Saves the image and returns its asset reference. Storing the same image twice is a no-op.
+export const storeImage = async (source: string): Promise<string> => {
+  const { bytes, mimeType } = await readImage(source);
+  const hash = await hashBytes(bytes);
+  const store = getBackend();
+  const now = Date.now();
+  const existing = await store.get(hash);
+  if (existing) {
+    await store.put({ ...existing, lastUsed: now });
+  } else {
+    await store.put({ hash, mimeType, size: bytes.byteLength, createdAt: now, lastUsed: now, blob: new Blob([bytes], { type: mimeType }) });
+  }
+  return toAssetRef(hash);
+};
+
+// Also marks the image as recently used, which protects it from eviction
+export const loadImage = async (ref: string): Promise<Blob | undefined> => {
+  if (!isAssetRef(ref)) return undefined;
+  const store = getBackend();
+  const record = await store.get(hashOf(ref));
+  if (!record) return undefined;
+  await store.put({ ...record, lastUsed: Date.now() });
+  return record.blob;
+};
+
+// An object URL for <img src>; callers revoke it when the scene leaves the screen
+export const getAssetUrl = async (ref: string): Promise<string | undefined> => {
+  const blob = await loadImage(ref);
+  return blob ? URL.createObjectURL(blob) : undefined;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// The image as a self-contained data URL, for files that leave the browser
+export const getAssetDataUrl = async (ref: string): Promise<string | undefined> => {
+  const blob = await loadImage(ref);
+  return blob ? blobToDataUrl(blob) : undefined;
+};
+
+export const referencedAssets = (saves: SaveSlot[], extra: GameHistoryItem[] = []): Set<string> => {
+  const refs = new Set<string>();
+  for (const item of [...saves.flatMap(slot => slot.history), ...extra]) {
+    // Alternate takes of a rerolled beat keep their own images
+    for (const imageAsset of [item.imageAsset, ...(item.takes || []).map(take => take.imageAsset)]) {
+      if (isAssetRef(imageAsset)) refs.add(hashOf(imageAsset));
+    }
+  }
+  return refs;
+};
+
+// Quarantined saves could not be parsed, so their raw text is searched for references instead
+export const quarantinedAssets = (entries: { raw: string }[]): Set<string> => {
+  const refs = new Set<string>();
+  for (const entry of entries) {
+    for (const match of entry.raw.matchAll(new RegExp(`${ASSET_REF_PREFIX}([0-9a-f]{64})`, 'g'))) refs.add(match[1]);
+  }
+  return refs;
+};
+
+// Drops images no save refers to, then the least recently used ones until the store fits maxBytes.
+// Returns the hashes that were removed.
+export const evictAssets = async (referenced: Set<string>, maxBytes: number = MAX_ASSET_BYTES): Promise<string[]> => {
+  const store = getBackend();
+  const assets = await store.list();
+  const evicted = assets.filter(asset => !referenced.has(asset.hash)).map(asset => asset.hash);
+
+  let total = assets.filter(asset => referenced.has(asset.hash)).reduce((sum, asset) => sum + asset.size, 0);
+  const byAge = assets.filter(asset => referenced.has(asset.hash)).sort((a, b) => a.lastUsed - b.lastUsed);
+  for (const asset of byAge) {
+    if (total <= maxBytes) break;
+    evicted.push(asset.hash);
+    total -= asset.size;
+  }
+
+  for (const hash of evicted) await store.delete(hash);
+  return evicted;
+};
+
+export const getAssetUsage = async (): Promise<AssetUsage> => {
+  const assets = await getBackend().list();
+  const usage: AssetUsage = {
+    assetCount: assets.length,
+    assetBytes: assets.reduce((sum, asset) => sum + asset.size, 0)
+  };
+  if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage.originUsage = estimate.usage;
+    usage.originQuota = estimate.quota;
+  }
+  return usage;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
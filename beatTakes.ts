@@ -0,0 +1,49 @@
+import { BeatTake, GameHistoryItem, GameState, MemoryNotes } from "./types";
+
+// Alternate takes of a story beat. A rerolled beat keeps every version the model wrote in
+// item.takes; the item's own text, state and image always mirror takes[activeTake], so the rest
+// of the game never needs to know a beat was rerolled.
+
+export const takeOf = (item: GameHistoryItem, notes?: MemoryNotes): BeatTake => ({
+  text: item.text,
+  state: item.state!,
+  imageAsset: item.imageAsset,
+  promptVersions: item.promptVersions,
+  notes,
+  actionCheck: item.actionCheck,
+  inventoryDiff: item.inventoryDiff
+});
+
+const applyTake = (item: GameHistoryItem, take: BeatTake): GameHistoryItem => ({
+  ...item,
+  text: take.text,
+  state: take.state,
+  imageUrl: undefined,
+  imageAsset: take.imageAsset,
+  promptVersions: take.promptVersions,
+  actionCheck: take.actionCheck,
+  inventoryDiff: take.inventoryDiff
+});
+
+export const takeCount = (item?: GameHistoryItem): number => item?.takes?.length || 1;
+
+// Adds a new take and shows it. The first reroll of a beat also records the original as take 0,
+// with the memory notes it was committed with when the caller still has them.
+export const addTake = (item: GameHistoryItem, take: BeatTake, originalNotes?: MemoryNotes): GameHistoryItem => {
+  const takes = item.takes?.length ? item.takes : [takeOf(item, originalNotes)];
+  return { ...applyTake(item, take), takes: [...takes, take], activeTake: takes.length };
+};
+
+export const selectTake = (item: GameHistoryItem, index: number): GameHistoryItem => {
+  const take = item.takes?.[index];
+  if (!take || index === item.activeTake) return item;
+  return { ...applyTake(item, take), activeTake: index };
+};
+
+// Scene images arrive after the beat is committed and are matched to the take by its state object.
+// The session-only imageUrl goes on the item only while that take is the one being shown.
+export const attachImage = (item: GameHistoryItem, state: GameState, image: { imageUrl?: string; imageAsset?: string }): GameHistoryItem => {
+  const takes = item.takes?.map(take => take.state === state && image.imageAsset ? { ...take, imageAsset: image.imageAsset } : take);
+  const next = takes ? { ...item, takes } : item;
+  return item.state === state ? { ...next, ...image } : next;
+};
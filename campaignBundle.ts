@@ -0,0 +1,123 @@
+import { AIProvider, GameHistoryItem, SaveSlot } from "./types";
+import { getStoredApiKey } from "./aiService";
+import { getAssetDataUrl, storeImage, isAssetRef } from "./assetStore";
+import { upgradeSave } from "./saveSchema";
+
+// Portable campaign files. A bundle is one JSON document holding a save slot (story, history,
+// chat, usage and memory) plus every scene image it refers to as a data URL, so it can be moved
+// to another browser or shared. Nothing from the player's settings goes in, API keys least of all.
+
+export const BUNDLE_FORMAT = 'chronicle-weaver-campaign';
+export const BUNDLE_VERSION = 1;
+
+export interface CampaignBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  exportedAt: number;
+  slot: SaveSlot;
+  // Scene images keyed by the asset reference used in slot.history
+  images: Record<string, string>;
+}
+
+const REDACTED = '[redacted]';
+
+// Keys live in their own storage and never in a save, but a player could still paste one into the
+// chat. Any stored key that shows up in the file is blanked out.
+const redactApiKeys = (json: string): string => {
+  return Object.values(AIProvider).reduce((text, provider) => {
+    const key = getStoredApiKey(provider);
+    return key && key.length >= 8 ? text.split(key).join(REDACTED) : text;
+  }, json);
+};
+
+// Only archived images and inline data URLs travel; provider URLs expire and are left out
+const portableItem = (item: GameHistoryItem): GameHistoryItem => {
+  const inline = item.imageUrl?.startsWith('data:') && !item.imageAsset ? item.imageUrl : undefined;
+  return { ...item, imageUrl: inline };
+};
+
+export const createBundle = async (slot: SaveSlot): Promise<CampaignBundle> => {
+  const images: Record<string, string> = {};
+  const refs = slot.history.flatMap(item => [item.imageAsset, ...(item.takes || []).map(take => take.imageAsset)]);
+  for (const ref of refs) {
+    if (!isAssetRef(ref) || images[ref]) continue;
+    const dataUrl = await getAssetDataUrl(ref).catch(() => undefined);
+    if (dataUrl) images[ref] = dataUrl;
+  }
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    slot: { ...slot, history: slot.history.map(portableItem) },
+    images
+  };
+};
+
+export const serializeBundle = (bundle: CampaignBundle): string => redactApiKeys(JSON.stringify(bundle));
+
+export const bundleFileName = (slot: SaveSlot): string => {
+  const slug = slot.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'campaign';
+  return `chronicle-${slug}.json`;
+};
+
+// Checks the file's shape and upgrades its slot to the current save schema
+export const parseBundle = (json: string): CampaignBundle => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  if (!parsed || parsed.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a Chronicle Weaver campaign file');
+  }
+  if (parsed.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported campaign file version: ${parsed.version}`);
+  }
+  const upgrade = upgradeSave(parsed.slot);
+  if (!upgrade.slot) {
+    throw new Error(`The campaign in this file is damaged: ${upgrade.error}`);
+  }
+  const images: Record<string, string> = {};
+  if (parsed.images && typeof parsed.images === 'object') {
+    for (const [ref, dataUrl] of Object.entries(parsed.images)) {
+      if (isAssetRef(ref) && typeof dataUrl === 'string' && dataUrl.startsWith('data:image/')) images[ref] = dataUrl;
+    }
+  }
+  return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: Number(parsed.exportedAt) || 0, slot: upgrade.slot, images };
+};
+
+// Stores the bundled images and returns a slot ready to add to the save list. A campaign whose
+// id is already taken gets a fresh id, so importing never overwrites an existing save.
+export const importBundle = async (json: string, existingIds: Set<string>): Promise<SaveSlot> => {
+  const bundle = parseBundle(json);
+
+  const refs = new Map<string, string>();
+  for (const [ref, dataUrl] of Object.entries(bundle.images)) {
+    try {
+      refs.set(ref, await storeImage(dataUrl));
+    } catch (error) {
+      console.warn('Skipping unreadable image in campaign file', error);
+    }
+  }
+  // Points a beat or take at its stored image, or drops a reference the file could not supply
+  const remap = <T extends { imageAsset?: string }>(entry: T): T => {
+    if (!entry.imageAsset) return entry;
+    const { imageAsset, ...rest } = entry;
+    const stored = refs.get(imageAsset);
+    return (stored ? { ...rest, imageAsset: stored } : rest) as T;
+  };
+  const history = bundle.slot.history.map(item => {
+    const remapped = remap(item);
+    return item.takes ? { ...remapped, takes: item.takes.map(remap) } : remapped;
+  });
+
+  const collides = existingIds.has(bundle.slot.id);
+  return {
+    ...bundle.slot,
+    id: collides ? crypto.randomUUID() : bundle.slot.id,
+    name: collides ? `${bundle.slot.name} (imported)` : bundle.slot.name,
+    history,
+    lastUpdated: Date.now()
+  };
+};
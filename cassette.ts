@@ -0,0 +1,136 @@
+import { AIProvider } from "./types";
+import { ServiceResponse } from "./providerRegistry";
+
+// Record/replay for AI calls. A cassette holds every request that went through aiService while
+// recording, keyed by a hash of the normalized prompt, so a session can be replayed with no network.
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+export type CassetteRequestKind = 'story' | 'image' | 'chat';
+
+export interface CassetteEntry {
+  key: string;
+  kind: CassetteRequestKind;
+  provider: AIProvider;
+  prompt: string;
+  response: ServiceResponse<any>;
+  recordedAt: number;
+}
+
+export interface Cassette {
+  version: 1;
+  name: string;
+  createdAt: number;
+  entries: CassetteEntry[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(public readonly kind: CassetteRequestKind, public readonly prompt: string) {
+    super(`No recording on the cassette for ${kind} request: "${prompt.slice(0, 80)}${prompt.length > 80 ? '...' : ''}"`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+let mode: CassetteMode = 'off';
+let activeCassette: Cassette | null = null;
+// How many times each key has been replayed, so repeated identical prompts play back in recorded order
+let replayCursor = new Map<string, number>();
+
+export const normalizePrompt = (text: string): string => {
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+// cyrb53: small, fast, sync string hash with a 53-bit result
+export const hashPrompt = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+export const cassetteKey = (kind: CassetteRequestKind, prompt: string): string => {
+  return `${kind}:${hashPrompt(normalizePrompt(prompt))}`;
+};
+
+export const getCassetteMode = (): CassetteMode => mode;
+
+export const getActiveCassette = (): Cassette | null => activeCassette;
+
+export const startRecording = (name: string = `Session ${new Date().toISOString()}`): void => {
+  mode = 'record';
+  activeCassette = { version: 1, name, createdAt: Date.now(), entries: [] };
+};
+
+export const stopRecording = (): Cassette | null => {
+  const recorded = mode === 'record' ? activeCassette : null;
+  mode = 'off';
+  activeCassette = null;
+  return recorded;
+};
+
+export const loadCassette = (cassette: Cassette): void => {
+  mode = 'replay';
+  activeCassette = cassette;
+  replayCursor = new Map();
+};
+
+export const ejectCassette = (): void => {
+  mode = 'off';
+  activeCassette = null;
+  replayCursor = new Map();
+};
+
+export const parseCassette = (json: string): Cassette => {
+  const parsed = JSON.parse(json);
+  if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.entries)) {
+    throw new Error('Not a Chronicle Weaver cassette file');
+  }
+  parsed.entries.forEach((entry: any, index: number) => {
+    if (typeof entry?.key !== 'string' || !entry.response || !entry.response.usage) {
+      throw new Error(`Cassette entry ${index} is malformed`);
+    }
+  });
+  return parsed as Cassette;
+};
+
+const replay = <T>(kind: CassetteRequestKind, prompt: string): ServiceResponse<T> => {
+  const key = cassetteKey(kind, prompt);
+  const matches = (activeCassette?.entries || []).filter(entry => entry.key === key);
+  if (matches.length === 0) {
+    throw new CassetteMissError(kind, normalizePrompt(prompt));
+  }
+  const played = replayCursor.get(key) || 0;
+  replayCursor.set(key, played + 1);
+  // Once the recorded takes run out, keep answering with the last one
+  return matches[Math.min(played, matches.length - 1)].response as ServiceResponse<T>;
+};
+
+// Wraps a live provider call: records it, replays it, or passes straight through
+export const withCassette = async <T>(
+  kind: CassetteRequestKind,
+  prompt: string,
+  provider: AIProvider,
+  call: () => Promise<ServiceResponse<T>>
+): Promise<ServiceResponse<T>> => {
+  if (mode === 'replay') {
+    return replay<T>(kind, prompt);
+  }
+
+  const response = await call();
+  if (mode === 'record' && activeCassette) {
+    activeCassette.entries.push({
+      key: cassetteKey(kind, prompt),
+      kind,
+      provider,
+      prompt: normalizePrompt(prompt),
+      response,
+      recordedAt: Date.now()
+    });
+  }
+  return response;
+};
@@ -0,0 +1,81 @@
+import { Attribute, CharacterSheet, CheckResult, GameState, SkillCheck } from "./types";
+import { rollDie } from "./dice";
+
+// The optional RPG layer. The story model keeps the character sheet in the game state and tags
+// risky choices with a skill check; when the player picks one, the check is rolled here and the
+// outcome goes into the prompt as settled fact for the model to narrate.
+
+export const ATTRIBUTES: Attribute[] = ['might', 'agility', 'wits', 'presence'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const toInteger = (value: unknown, fallback: number): number => {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.round(number) : fallback;
+};
+
+const toAttribute = (value: unknown): Attribute | undefined => {
+  const name = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return ATTRIBUTES.find(attribute => attribute === name);
+};
+
+// Lenient like memory notes: missing scores are average, out-of-range ones are clamped
+export const parseCharacterSheet = (value: unknown): CharacterSheet | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const input = value as Record<string, unknown>;
+  const scores = input.attributes && typeof input.attributes === 'object' ? input.attributes as Record<string, unknown> : {};
+  const maxHp = Math.max(1, toInteger(input.maxHp, 10));
+  return {
+    name: typeof input.name === 'string' ? input.name.trim() : '',
+    hp: clamp(toInteger(input.hp, maxHp), 0, maxHp),
+    maxHp,
+    attributes: Object.fromEntries(ATTRIBUTES.map(attribute => [attribute, clamp(toInteger(scores[attribute], 10), 3, 18)])) as Record<Attribute, number>
+  };
+};
+
+export const parseSkillChecks = (value: unknown): SkillCheck[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap(entry => {
+    if (!entry || typeof entry !== 'object') return [];
+    const input = entry as Record<string, unknown>;
+    const choice = typeof input.choice === 'string' ? input.choice.trim() : '';
+    const attribute = toAttribute(input.attribute);
+    return choice && attribute ? [{ choice, attribute, difficulty: clamp(toInteger(input.difficulty, 12), 5, 25) }] : [];
+  });
+};
+
+// The model may only move hp, and only within the sheet's bounds. A reply that forgot the
+// sheet keeps the previous one.
+export const settleCharacter = (state: GameState, previous?: CharacterSheet): GameState => {
+  if (!previous) return state;
+  if (!state.character) return { ...state, character: previous };
+  return { ...state, character: { ...previous, hp: clamp(state.character.hp, 0, previous.maxHp) } };
+};
+
+export const checkFor = (state: GameState, choice: string): SkillCheck | undefined => {
+  if (!state.character) return undefined;
+  const wanted = choice.trim().toLowerCase();
+  return state.skillChecks?.find(check => check.choice.toLowerCase() === wanted);
+};
+
+export const modifierFor = (score: number): number => Math.floor((score - 10) / 2);
+
+// A natural 20 always succeeds and a natural 1 always fails
+export const resolveCheck = (check: SkillCheck, character: CharacterSheet, seed: number, beatIndex: number): CheckResult => {
+  const roll = rollDie(seed, beatIndex);
+  const modifier = modifierFor(character.attributes[check.attribute]);
+  const total = roll + modifier;
+  const outcome = roll === 20 ? 'critical success'
+    : roll === 1 ? 'critical failure'
+    : total >= check.difficulty ? 'success'
+    : 'failure';
+  return { attribute: check.attribute, difficulty: check.difficulty, roll, modifier, total, outcome };
+};
+
+export const formatModifier = (modifier: number): string => modifier >= 0 ? `+${modifier}` : `−${-modifier}`;
+
+// e.g. "Agility 7 +2 = 9 vs 14: failure"
+export const formatCheck = (result: CheckResult): string => {
+  const attribute = result.attribute[0].toUpperCase() + result.attribute.slice(1);
+  return `${attribute} ${result.roll} ${formatModifier(result.modifier)} = ${result.total} vs ${result.difficulty}: ${result.outcome}`;
+};
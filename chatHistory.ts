@@ -0,0 +1,63 @@
+import { AIProvider, ChatMessage, GameHistoryItem } from "./types";
+import { estimateTokens } from "./narrativeMemory";
+
+// Conversation context for the Chronicler. Saved chat messages are replayed to the provider as
+// real turns, trimmed from the oldest end to a per-provider budget, and the latest story beats
+// are summarized into the system instruction so the Chronicler knows what just happened.
+
+// Tokens of earlier conversation per chat request, on top of the new message itself
+export const CHAT_TOKEN_BUDGETS: Record<AIProvider, number> = {
+  [AIProvider.GEMINI]: 8000,
+  [AIProvider.OPENAI]: 4000,
+  [AIProvider.CLAUDE]: 6000,
+  [AIProvider.LOCAL]: 1000
+};
+
+export const RECENT_BEAT_COUNT = 3;
+
+const MAX_BEAT_LENGTH = 600;
+
+// Providers expect alternating turns that open with the user, so consecutive messages from the
+// same side (e.g. a question whose reply failed) are joined and a leading reply is dropped
+export const normalizeChatHistory = (messages: ChatMessage[]): ChatMessage[] => {
+  const turns: ChatMessage[] = [];
+  for (const message of messages) {
+    if (!message.text?.trim()) continue;
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      turns[turns.length - 1] = { role: last.role, text: `${last.text}\n\n${message.text}` };
+    } else {
+      turns.push({ role: message.role, text: message.text });
+    }
+  }
+  while (turns.length && turns[0].role !== 'user') turns.shift();
+  return turns;
+};
+
+// Keeps the newest turns that fit in budgetTokens, oldest first
+export const trimChatHistory = (messages: ChatMessage[], budgetTokens: number): ChatMessage[] => {
+  const turns = normalizeChatHistory(messages);
+  let remaining = budgetTokens;
+  let start = turns.length;
+  while (start > 0) {
+    const cost = estimateTokens(turns[start - 1].text);
+    if (cost > remaining) break;
+    remaining -= cost;
+    start--;
+  }
+  return normalizeChatHistory(turns.slice(start));
+};
+
+export const chatHistoryFor = (messages: ChatMessage[], provider: AIProvider): ChatMessage[] => {
+  return trimChatHistory(messages, CHAT_TOKEN_BUDGETS[provider] ?? CHAT_TOKEN_BUDGETS[AIProvider.LOCAL]);
+};
+
+// History is newest-first; the summary reads in story order
+export const formatRecentBeats = (beats: GameHistoryItem[]): string => {
+  const recent = beats.slice(0, RECENT_BEAT_COUNT).reverse();
+  if (recent.length === 0) return '(the story has not started yet)';
+  return recent.map(beat => {
+    const text = beat.text.length > MAX_BEAT_LENGTH ? `${beat.text.slice(0, MAX_BEAT_LENGTH - 1)}…` : beat.text;
+    return `- After "${beat.choice}": ${text}`;
+  }).join('\n');
+};
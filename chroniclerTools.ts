@@ -0,0 +1,210 @@
+import { ChatMessage, GameHistoryItem, GameState, InventoryChange, InventoryItem } from "./types";
+import { diffInventory, formatChange } from "./inventory";
+
+// Read-only tools the Chronicler can call to look things up in the save instead of relying on
+// its system prompt. Each provider adapter translates the same definitions into its own
+// function-calling format and hands every call to runChroniclerTool.
+
+export interface ChroniclerToolContext {
+  gameState: GameState;
+  // Newest first, as stored in the save
+  history: GameHistoryItem[];
+  chatMessages: ChatMessage[];
+}
+
+// JSON Schema subset understood by all three providers
+export interface ToolParameters {
+  type: 'object';
+  properties: Record<string, { type: 'string' | 'integer'; description: string }>;
+  required?: string[];
+}
+
+export interface ChroniclerTool {
+  name: string;
+  description: string;
+  parameters: ToolParameters;
+  run: (args: Record<string, unknown>, context: ChroniclerToolContext) => unknown;
+}
+
+// How many times one chat reply may go back to the tools before it has to answer
+export const MAX_TOOL_ROUNDS = 4;
+
+const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 20;
+const SNIPPET_RADIUS = 160;
+
+// Question words that would otherwise match every beat
+const STOP_WORDS = new Set(['the', 'and', 'what', 'did', 'who', 'whom', 'where', 'when', 'which', 'how', 'was', 'were', 'that', 'this', 'with', 'for', 'about', 'from']);
+
+// Beats are numbered from 1, the opening scene, in story order
+const beatsInOrder = (history: GameHistoryItem[]) => {
+  return [...history].reverse().map((item, index) => ({ beat: index + 1, item }));
+};
+
+const stringArg = (args: Record<string, unknown>, name: string): string => {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`"${name}" must be a non-empty string`);
+  return value.trim();
+};
+
+const limitArg = (args: Record<string, unknown>): number => {
+  const value = Number(args.limit ?? DEFAULT_SEARCH_LIMIT);
+  return Number.isFinite(value) ? Math.min(Math.max(Math.floor(value), 1), MAX_SEARCH_LIMIT) : DEFAULT_SEARCH_LIMIT;
+};
+
+// A window of text around the first match of any query word
+const snippet = (text: string, words: string[]): string => {
+  const lower = text.toLowerCase();
+  const at = Math.min(...words.map(word => lower.indexOf(word)).filter(index => index >= 0));
+  if (!Number.isFinite(at) || text.length <= SNIPPET_RADIUS * 2) return text;
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+// Ranks by how many query words appear, so loose questions still find something
+const search = <T>(items: T[], textOf: (item: T) => string, query: string, limit: number) => {
+  const words = query.toLowerCase().split(/\s+/).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+  const terms = words.length ? words : [query.toLowerCase()];
+  return items
+    .map(item => ({ item, text: textOf(item), score: terms.filter(term => textOf(item).toLowerCase().includes(term)).length }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(match => ({ item: match.item, snippet: snippet(match.text, terms) }));
+};
+
+const inventoryChanges = (history: GameHistoryItem[]) => {
+  const changes: { beat: number; choice: string; gained: string[]; lost: string[]; changed: string[]; reasons?: string[] }[] = [];
+  let previous: InventoryItem[] = [];
+  for (const { beat, item } of beatsInOrder(history)) {
+    const current = item.state?.inventory || [];
+    const diff = diffInventory(previous, current);
+    const names = (kind: InventoryChange['kind']) => diff.filter(change => change.kind === kind).map(change => kind === 'changed' ? formatChange(change).slice(2) : change.item.name);
+    const reasons = (item.inventoryDiff?.changes || []).filter(change => change.reason).map(change => `${change.item.name}: ${change.reason}`);
+    if (diff.length) {
+      changes.push({ beat, choice: item.choice, gained: names('gained'), lost: names('lost'), changed: names('changed'), ...(reasons.length ? { reasons } : {}) });
+    }
+    previous = current;
+  }
+  return changes;
+};
+
+export const CHRONICLER_TOOLS: ChroniclerTool[] = [
+  {
+    name: 'search_story',
+    description: 'Search every story beat so far for words or names. Beats are numbered from 1, the opening scene.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words to look for, e.g. "merchant amulet"' },
+        limit: { type: 'integer', description: `Most results to return (default ${DEFAULT_SEARCH_LIMIT})` }
+      },
+      required: ['query']
+    },
+    run: (args, { history }) => {
+      const matches = search(beatsInOrder(history), ({ item }) => `${item.choice}\n${item.text}`, stringArg(args, 'query'), limitArg(args));
+      return matches.map(({ item, snippet }) => ({ beat: item.beat, choice: item.item.choice, excerpt: snippet }));
+    }
+  },
+  {
+    name: 'get_beat',
+    description: 'Read one story beat in full, with the choice that led to it and the quest and inventory at that moment.',
+    parameters: {
+      type: 'object',
+      properties: {
+        beat: { type: 'integer', description: 'Beat number, 1 being the opening scene' }
+      },
+      required: ['beat']
+    },
+    run: (args, { history }) => {
+      const beats = beatsInOrder(history);
+      const number = Number(args.beat);
+      const found = beats.find(entry => entry.beat === number);
+      if (!found) throw new Error(`There is no beat ${args.beat}; the story has ${beats.length}`);
+      return {
+        beat: found.beat,
+        choice: found.item.choice,
+        text: found.item.text,
+        quest: found.item.state?.currentQuest,
+        inventory: found.item.state?.inventory
+      };
+    }
+  },
+  {
+    name: 'get_game_state',
+    description: 'The current scene: story text, available choices, quest, quest log, inventory and genre.',
+    parameters: { type: 'object', properties: {} },
+    run: (_args, { gameState, history }) => ({
+      beat: history.length,
+      storyText: gameState.storyText,
+      choices: gameState.choices,
+      currentQuest: gameState.currentQuest,
+      quests: gameState.quests || [],
+      inventory: gameState.inventory,
+      genre: gameState.genre
+    })
+  },
+  {
+    name: 'get_inventory_changes',
+    description: 'Every beat where the player gained or lost items, in story order.',
+    parameters: { type: 'object', properties: {} },
+    run: (_args, { history }) => inventoryChanges(history)
+  },
+  {
+    name: 'search_chat',
+    description: 'Search earlier messages between the player and the Chronicler.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words to look for' },
+        limit: { type: 'integer', description: `Most results to return (default ${DEFAULT_SEARCH_LIMIT})` }
+      },
+      required: ['query']
+    },
+    run: (args, { chatMessages }) => {
+      const matches = search(chatMessages, message => message.text, stringArg(args, 'query'), limitArg(args));
+      return matches.map(({ item, snippet }) => ({ from: item.role === 'user' ? 'player' : 'chronicler', excerpt: snippet }));
+    }
+  }
+];
+
+// Always returns JSON text: failures are reported to the model so it can correct itself
+export const runChroniclerTool = (name: string, args: Record<string, unknown> | undefined, context: ChroniclerToolContext): string => {
+  const tool = CHRONICLER_TOOLS.find(candidate => candidate.name === name);
+  if (!tool) return JSON.stringify({ error: `Unknown tool: ${name}` });
+  try {
+    return JSON.stringify({ result: tool.run(args || {}, context) });
+  } catch (error) {
+    return JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+// Arguments arrive as a JSON string from chat-completions APIs and as objects elsewhere
+export const parseToolArguments = (raw: unknown): Record<string, unknown> => {
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) return raw as Record<string, unknown>;
+  if (typeof raw !== 'string' || !raw.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export const geminiFunctionDeclarations = () => CHRONICLER_TOOLS.map(tool => ({
+  name: tool.name,
+  description: tool.description,
+  parametersJsonSchema: tool.parameters
+}));
+
+export const openaiTools = () => CHRONICLER_TOOLS.map(tool => ({
+  type: 'function' as const,
+  function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+}));
+
+export const anthropicTools = () => CHRONICLER_TOOLS.map(tool => ({
+  name: tool.name,
+  description: tool.description,
+  input_schema: tool.parameters
+}));
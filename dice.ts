@@ -0,0 +1,32 @@
+// Seeded dice. Each save has its own seed, and a roll depends only on that seed and the beat it
+// is made for, so rewinding, rerolling or forking a beat always lands the same die.
+
+export const createSeed = (): number => crypto.getRandomValues(new Uint32Array(1))[0];
+
+// FNV-1a, for saves that were created before they had a seed
+export const seedFromText = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and good enough for dice
+export const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// beatIndex counts from the opening beat, so it does not shift as the story grows
+export const rollDie = (seed: number, beatIndex: number, sides: number = 20): number => {
+  const random = seededRandom((seed ^ Math.imul(beatIndex + 1, 0x9e3779b9)) >>> 0);
+  return 1 + Math.floor(random() * sides);
+};
@@ -0,0 +1,172 @@
+import { GameState } from "./types";
+import { parseMemoryNotes } from "./narrativeMemory";
+import { parseActionCheck } from "./playerActions";
+import { parseInventoryItem, parseInventoryChanges } from "./inventory";
+import { parseCharacterSheet, parseSkillChecks } from "./characterSheet";
+import { parseQuests } from "./questLog";
+
+// One place that decides whether a model reply is a usable GameState. Every provider's output
+// goes through here: JSON is pulled out of code fences or surrounding prose, each field is
+// checked, and the caller gets a precise list of what is wrong.
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+// state is set only when there are no issues; partial always holds the fields that passed
+export interface GameStateValidation {
+  state?: GameState;
+  issues: ValidationIssue[];
+  partial: Partial<GameState>;
+}
+
+// Used only for fields that are still broken after the repair request
+export const GAME_STATE_DEFAULTS: GameState = {
+  storyText: 'The story begins...',
+  choices: ['Continue'],
+  inventory: [],
+  currentQuest: 'Unknown quest',
+  visualPrompt: 'A mysterious scene',
+  worldStyle: 'fantasy',
+  genre: 'Fantasy'
+};
+
+const FENCE_PATTERN = /```(?:json|JSON)?\s*([\s\S]*?)```/;
+
+// Finds the first balanced {...} block, ignoring braces inside strings
+const findJsonObject = (text: string): string | undefined => {
+  const start = text.indexOf('{');
+  if (start === -1) return undefined;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return undefined;
+};
+
+// Returns the parsed JSON object in a model reply, or undefined when there isn't one
+export const extractJson = (text: string): Record<string, unknown> | undefined => {
+  const candidates = [text.trim()];
+  const fenced = FENCE_PATTERN.exec(text);
+  if (fenced) candidates.push(fenced[1].trim());
+  const braced = findJsonObject(fenced ? fenced[1] : text);
+  if (braced) candidates.push(braced);
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined;
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const STRING_FIELDS = ['storyText', 'currentQuest', 'visualPrompt', 'worldStyle', 'genre'] as const;
+
+export const validateGameState = (value: unknown): GameStateValidation => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { issues: [{ field: '(root)', message: 'expected a JSON object' }], partial: {} };
+  }
+  const input = value as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+  const partial: Partial<GameState> = {};
+
+  for (const field of STRING_FIELDS) {
+    if (isNonEmptyString(input[field])) {
+      partial[field] = input[field] as string;
+    } else {
+      issues.push({ field, message: input[field] === undefined ? 'is missing' : 'must be a non-empty string' });
+    }
+  }
+
+  const choices = input.choices;
+  if (!Array.isArray(choices)) {
+    issues.push({ field: 'choices', message: choices === undefined ? 'is missing' : 'must be an array of strings' });
+  } else if (choices.length === 0) {
+    issues.push({ field: 'choices', message: 'must offer at least one choice' });
+  } else if (!choices.every(isNonEmptyString)) {
+    issues.push({ field: 'choices', message: 'must contain only non-empty strings' });
+  } else {
+    partial.choices = choices;
+  }
+
+  const inventory = input.inventory;
+  const items = Array.isArray(inventory) ? inventory.map(parseInventoryItem) : [];
+  if (!Array.isArray(inventory)) {
+    issues.push({ field: 'inventory', message: inventory === undefined ? 'is missing' : 'must be an array of items' });
+  } else if (items.some(item => !item)) {
+    issues.push({ field: 'inventory', message: 'must contain only items with a name' });
+  } else {
+    partial.inventory = items as GameState['inventory'];
+  }
+
+  const memoryNotes = parseMemoryNotes(input.memoryNotes);
+  if (memoryNotes) partial.memoryNotes = memoryNotes;
+
+  const actionCheck = parseActionCheck(input.actionCheck);
+  if (actionCheck) partial.actionCheck = actionCheck;
+
+  const inventoryChanges = parseInventoryChanges(input.inventoryChanges);
+  if (inventoryChanges) partial.inventoryChanges = inventoryChanges;
+
+  const character = parseCharacterSheet(input.character);
+  if (character) partial.character = character;
+
+  const skillChecks = parseSkillChecks(input.skillChecks);
+  if (skillChecks) partial.skillChecks = skillChecks;
+
+  const quests = parseQuests(input.quests);
+  if (quests) partial.quests = quests;
+
+  if (issues.length > 0) return { issues, partial };
+  return { state: partial as GameState, issues, partial };
+};
+
+export const formatIssues = (issues: ValidationIssue[]): string => {
+  return issues.map(issue => `- ${issue.field} ${issue.message}`).join('\n');
+};
+
+export const buildRepairPrompt = (reply: string, issues: ValidationIssue[]): string => {
+  return `Your previous reply could not be used as the game state.
+
+Problems:
+${formatIssues(issues)}
+
+Previous reply:
+${reply}
+
+Return ONLY a corrected JSON object, with no prose or code fences, containing exactly these fields:
+- storyText: string
+- choices: array of 2-3 strings
+- inventory: array of { id: string, name: string, quantity: number, description: string, tags: array of strings }
+- currentQuest: string
+- quests: array of { id: string, title: string, objectives: array of { text: string, done: boolean }, status: "active" | "completed" | "failed" | "abandoned" }
+- visualPrompt: string
+- worldStyle: string
+- genre: string
+- inventoryChanges: array of { name: string, reason: string }, carried over from the previous reply
+- character and skillChecks, carried over unchanged if the previous reply had them
+Keep the story content the same; only fix the problems listed.`;
+};
+
+// Last resort after a failed repair: keep every valid field and default the rest
+export const applyDefaults = (partial: Partial<GameState>): GameState => {
+  return { ...GAME_STATE_DEFAULTS, ...partial };
+};
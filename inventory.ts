@@ -0,0 +1,159 @@
+import { GameHistoryItem, GameState, InventoryChange, InventoryChangeNote, InventoryDiff, InventoryItem } from "./types";
+
+// Structured inventory. The model returns the whole item list with every reply and explains each
+// item it adds, removes or alters in inventoryChanges. The client diffs the new list against the
+// previous beat's, keeps the changes that came with a reason and undoes the rest, so items cannot
+// silently appear or vanish.
+
+export const slugItemId = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'item';
+
+const toStringList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((tag): tag is string => typeof tag === 'string' && tag.trim().length > 0).map(tag => tag.trim());
+};
+
+// Plain strings are still accepted (older saves, smaller models) and become single items.
+// acquiredAt is whatever the reply said; reconcileInventory decides the real value.
+export const parseInventoryItem = (value: unknown): InventoryItem | undefined => {
+  if (typeof value === 'string') {
+    const name = value.trim();
+    return name ? { id: slugItemId(name), name, quantity: 1, description: '', tags: [], acquiredAt: 0 } : undefined;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const input = value as Record<string, unknown>;
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) return undefined;
+  const quantity = Number(input.quantity ?? 1);
+  return {
+    id: typeof input.id === 'string' && input.id.trim() ? input.id.trim() : slugItemId(name),
+    name,
+    quantity: Number.isFinite(quantity) && quantity > 0 ? Math.floor(quantity) : 1,
+    description: typeof input.description === 'string' ? input.description.trim() : '',
+    tags: toStringList(input.tags),
+    acquiredAt: Number.isInteger(input.acquiredAt) ? input.acquiredAt as number : 0
+  };
+};
+
+export const parseInventoryChanges = (value: unknown): InventoryChangeNote[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap(entry => {
+    if (!entry || typeof entry !== 'object') return [];
+    const input = entry as Record<string, unknown>;
+    const reason = typeof input.reason === 'string' ? input.reason.trim() : '';
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    const id = typeof input.id === 'string' ? input.id.trim() : '';
+    return reason && (name || id) ? [{ ...(id ? { id } : {}), name: name || id, reason }] : [];
+  });
+};
+
+const sameItem = (a: InventoryItem, b: InventoryItem) => a.id === b.id || a.name.toLowerCase() === b.name.toLowerCase();
+
+const sameDetails = (a: InventoryItem, b: InventoryItem) =>
+  a.quantity === b.quantity && a.description === b.description && a.tags.join('\u0000') === b.tags.join('\u0000');
+
+// Items are matched by id first and by name when the model renamed the id
+export const diffInventory = (before: InventoryItem[], after: InventoryItem[]): InventoryChange[] => {
+  const changes: InventoryChange[] = [];
+  for (const item of after) {
+    const previous = before.find(old => sameItem(old, item));
+    if (!previous) changes.push({ kind: 'gained', item });
+    else if (!sameDetails(previous, item) || previous.name !== item.name) changes.push({ kind: 'changed', item, before: previous });
+  }
+  for (const item of before) {
+    if (!after.some(next => sameItem(item, next))) changes.push({ kind: 'lost', item });
+  }
+  return changes;
+};
+
+const explains = (note: InventoryChangeNote, change: InventoryChange) => {
+  const names = [change.item.name, change.before?.name].filter(Boolean).map(name => name!.toLowerCase());
+  return (note.id && (note.id === change.item.id || note.id === change.before?.id)) || names.includes(note.name.toLowerCase());
+};
+
+export interface ReconciledInventory {
+  inventory: InventoryItem[];
+  diff: InventoryDiff;
+}
+
+// previous is undefined for the opening beat, whose starting items need no explanation.
+// beatIndex counts from the opening beat and becomes acquiredAt for new items.
+export const reconcileInventory = (
+  previous: InventoryItem[] | undefined,
+  proposed: InventoryItem[],
+  notes: InventoryChangeNote[] = [],
+  beatIndex: number
+): ReconciledInventory => {
+  if (!previous) {
+    const inventory = proposed.map(item => ({ ...item, acquiredAt: beatIndex }));
+    return { inventory, diff: { changes: inventory.map(item => ({ kind: 'gained' as const, item })), rejected: [] } };
+  }
+
+  // Keep stable ids and the original acquiredAt for items that were already carried
+  const next = proposed.map(item => {
+    const old = previous.find(existing => sameItem(existing, item));
+    return old ? { ...item, id: old.id, acquiredAt: old.acquiredAt } : { ...item, acquiredAt: beatIndex };
+  });
+
+  const changes: InventoryChange[] = [];
+  const rejected: InventoryChange[] = [];
+  let inventory = next;
+  for (const change of diffInventory(previous, next)) {
+    const note = notes.find(candidate => explains(candidate, change));
+    if (note) {
+      changes.push({ ...change, reason: note.reason });
+      continue;
+    }
+    rejected.push(change);
+    if (change.kind === 'gained') inventory = inventory.filter(item => item !== change.item);
+    else if (change.kind === 'lost') inventory = [...inventory, change.item];
+    else inventory = inventory.map(item => item === change.item ? change.before! : item);
+  }
+  return { inventory, diff: { changes, rejected } };
+};
+
+// Moves the change notes off a fresh reply and settles its inventory against the previous beat's
+export const settleInventory = (
+  state: GameState,
+  previous: InventoryItem[] | undefined,
+  beatIndex: number
+): { state: GameState; diff: InventoryDiff } => {
+  const { inventoryChanges, ...rest } = state;
+  const { inventory, diff } = reconcileInventory(previous, rest.inventory, inventoryChanges, beatIndex);
+  return { state: { ...rest, inventory }, diff };
+};
+
+export const formatInventory = (items: InventoryItem[]): string => {
+  if (items.length === 0) return 'nothing';
+  return items.map(item => item.quantity > 1 ? `${item.name} ×${item.quantity}` : item.name).join(', ');
+};
+
+export const formatChange = (change: InventoryChange): string => {
+  const quantity = (item: InventoryItem) => item.quantity > 1 ? ` ×${item.quantity}` : '';
+  if (change.kind === 'gained') return `+ ${change.item.name}${quantity(change.item)}`;
+  if (change.kind === 'lost') return `− ${change.item.name}${quantity(change.item)}`;
+  const before = change.before!;
+  return before.quantity !== change.item.quantity
+    ? `~ ${change.item.name} ${before.quantity} → ${change.item.quantity}`
+    : `~ ${change.item.name}`;
+};
+
+// For saves from before structured items: each name becomes an item acquired at the first beat
+// (oldest first) whose inventory listed it
+export const upgradeInventoryHistory = (history: GameHistoryItem[]): Map<string, number> => {
+  const firstSeen = new Map<string, number>();
+  [...history].reverse().forEach((item, beatIndex) => {
+    for (const entry of (item.state?.inventory || []) as unknown[]) {
+      const parsed = parseInventoryItem(entry);
+      if (parsed && !firstSeen.has(parsed.name.toLowerCase())) firstSeen.set(parsed.name.toLowerCase(), beatIndex);
+    }
+  });
+  return firstSeen;
+};
+
+export const upgradeInventory = (value: unknown, firstSeen: Map<string, number>): InventoryItem[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(entry => {
+    const item = parseInventoryItem(entry);
+    return item ? [{ ...item, acquiredAt: firstSeen.get(item.name.toLowerCase()) ?? item.acquiredAt }] : [];
+  });
+};
@@ -0,0 +1,148 @@
+import { AIProvider, ImageSize, AspectRatio } from "./types";
+import { ImageFormat } from "./providerRegistry";
+
+// Every model the game can call, per provider, with the price used for cost estimates.
+// Prices are USD: per million tokens for text, per generated image for images.
+
+export type ModelRole = 'text' | 'chat' | 'image';
+
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+  // Overrides perImage for specific size labels (see ServiceResponse usage.imageSize)
+  perImageBySize?: Record<string, number>;
+}
+
+// What an image model can produce; requests outside this are moved to a model that can
+export interface ImageCapabilities {
+  resolutions: ImageSize[];
+  aspectRatios: AspectRatio[];
+}
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  roles: ModelRole[];
+  pricing: ModelPricing;
+  image?: ImageCapabilities;
+}
+
+const ALL_ASPECTS: AspectRatio[] = ['1:1', '16:9', '9:16'];
+
+const FREE: ModelPricing = { inputPerMillion: 0, outputPerMillion: 0, perImage: 0 };
+
+// The first model listed for a role is that role's default
+export const MODEL_CATALOG: Record<AIProvider, ModelInfo[]> = {
+  [AIProvider.GEMINI]: [
+    { id: 'gemini-2.0-flash-exp', label: 'Gemini 2.0 Flash', roles: ['text', 'chat', 'image'], pricing: { inputPerMillion: 0.1, outputPerMillion: 0.4, perImage: 0.0008 }, image: { resolutions: [ImageSize.K1], aspectRatios: ['1:1'] } },
+    { id: 'gemini-2.0-flash-lite', label: 'Gemini 2.0 Flash-Lite', roles: ['text', 'chat'], pricing: { inputPerMillion: 0.075, outputPerMillion: 0.3, perImage: 0 } },
+    { id: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro', roles: ['text', 'chat'], pricing: { inputPerMillion: 1.25, outputPerMillion: 5.0, perImage: 0 } },
+    { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image', roles: ['image'], pricing: { inputPerMillion: 0.3, outputPerMillion: 0, perImage: 0.039 }, image: { resolutions: [ImageSize.K1], aspectRatios: ALL_ASPECTS } },
+    { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image', roles: ['image'], pricing: { inputPerMillion: 2, outputPerMillion: 0, perImage: 0.134, perImageBySize: { '4K': 0.24 } }, image: { resolutions: [ImageSize.K1, ImageSize.K2, ImageSize.K4], aspectRatios: ALL_ASPECTS } }
+  ],
+  [AIProvider.OPENAI]: [
+    { id: 'gpt-4o-mini', label: 'GPT-4o mini', roles: ['text', 'chat'], pricing: { inputPerMillion: 0.15, outputPerMillion: 0.6, perImage: 0 } },
+    { id: 'gpt-4o', label: 'GPT-4o', roles: ['text', 'chat'], pricing: { inputPerMillion: 2.5, outputPerMillion: 10, perImage: 0 } },
+    { id: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo', roles: ['text', 'chat'], pricing: { inputPerMillion: 0.5, outputPerMillion: 1.5, perImage: 0 } },
+    {
+      id: 'dall-e-3',
+      label: 'DALL·E 3',
+      roles: ['image'],
+      pricing: {
+        inputPerMillion: 0,
+        outputPerMillion: 0,
+        perImage: 0.04,
+        perImageBySize: {
+          'standard 1792x1024': 0.08,
+          'standard 1024x1792': 0.08,
+          'hd 1024x1024': 0.08,
+          'hd 1792x1024': 0.12,
+          'hd 1024x1792': 0.12
+        }
+      },
+      // HD quality stands in for 2K; DALL·E has nothing larger
+      image: { resolutions: [ImageSize.K1, ImageSize.K2], aspectRatios: ALL_ASPECTS }
+    },
+    { id: 'dall-e-2', label: 'DALL·E 2', roles: ['image'], pricing: { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.02 }, image: { resolutions: [ImageSize.K1], aspectRatios: ['1:1'] } }
+  ],
+  [AIProvider.CLAUDE]: [
+    { id: 'claude-3-5-haiku-20241022', label: 'Claude 3.5 Haiku', roles: ['text', 'chat'], pricing: { inputPerMillion: 0.8, outputPerMillion: 4, perImage: 0 } },
+    { id: 'claude-3-haiku-20240307', label: 'Claude 3 Haiku', roles: ['text', 'chat'], pricing: { inputPerMillion: 0.25, outputPerMillion: 1.25, perImage: 0 } },
+    { id: 'claude-3-5-sonnet-20241022', label: 'Claude 3.5 Sonnet', roles: ['text', 'chat'], pricing: { inputPerMillion: 3, outputPerMillion: 15, perImage: 0 } }
+  ],
+  // Local servers run whatever model the player names in settings, always at no cost
+  [AIProvider.LOCAL]: []
+};
+
+const MODEL_STORAGE_PREFIX = 'CHRONICLE_WEAVER_MODEL_';
+
+const modelStorageKey = (provider: AIProvider, role: ModelRole) => `${MODEL_STORAGE_PREFIX}${provider.toUpperCase()}_${role.toUpperCase()}`;
+
+export const getModelsFor = (provider: AIProvider, role: ModelRole): ModelInfo[] => {
+  return (MODEL_CATALOG[provider] || []).filter(model => model.roles.includes(role));
+};
+
+export const getDefaultModel = (provider: AIProvider, role: ModelRole): string => {
+  return getModelsFor(provider, role)[0]?.id || '';
+};
+
+// Falls back to the default when nothing is saved or the saved model left the catalog
+export const getSelectedModel = (provider: AIProvider, role: ModelRole): string => {
+  const stored = localStorage.getItem(modelStorageKey(provider, role));
+  if (stored && getModelsFor(provider, role).some(model => model.id === stored)) return stored;
+  return getDefaultModel(provider, role);
+};
+
+export const setSelectedModel = (provider: AIProvider, role: ModelRole, modelId: string): void => {
+  if (!modelId || modelId === getDefaultModel(provider, role)) {
+    localStorage.removeItem(modelStorageKey(provider, role));
+  } else {
+    localStorage.setItem(modelStorageKey(provider, role), modelId);
+  }
+};
+
+export const getModelInfo = (provider: AIProvider, modelId: string): ModelInfo | undefined => {
+  return (MODEL_CATALOG[provider] || []).find(model => model.id === modelId);
+};
+
+// Unknown models are billed at the provider's default text model so costs are never silently zero
+export const getModelPricing = (provider: AIProvider, modelId?: string): ModelPricing => {
+  if (provider === AIProvider.LOCAL) return FREE;
+  const known = modelId ? getModelInfo(provider, modelId) : undefined;
+  if (known) return known.pricing;
+  const fallback = getModelInfo(provider, getDefaultModel(provider, 'text'));
+  return fallback ? fallback.pricing : MODEL_CATALOG[AIProvider.GEMINI][0].pricing;
+};
+
+export const getImagePrice = (pricing: ModelPricing, imageSize?: string): number => {
+  return (imageSize && pricing.perImageBySize?.[imageSize]) ?? pricing.perImage;
+};
+
+const supportsFormat = (model: ModelInfo, format: ImageFormat): boolean => {
+  return !!model.image && model.image.resolutions.includes(format.resolution) && model.image.aspectRatios.includes(format.aspectRatio);
+};
+
+// The selected image model when it can produce the format, otherwise the first one that can.
+// If none can, the selected model is used with the format clamped to what it supports.
+export const resolveImageModel = (provider: AIProvider, format: ImageFormat): { model: ModelInfo; format: ImageFormat } | undefined => {
+  const selected = getModelInfo(provider, getSelectedModel(provider, 'image'));
+  if (!selected) return undefined;
+  if (supportsFormat(selected, format)) return { model: selected, format };
+  const capable = getModelsFor(provider, 'image').find(model => supportsFormat(model, format));
+  if (capable) return { model: capable, format };
+
+  const { resolutions = [ImageSize.K1], aspectRatios = ['1:1'] } = selected.image || {};
+  const resolution = resolutions.includes(format.resolution) ? format.resolution : resolutions[resolutions.length - 1];
+  const aspectRatio = aspectRatios.includes(format.aspectRatio) ? format.aspectRatio : aspectRatios[0];
+  return { model: selected, format: { resolution, aspectRatio } };
+};
+
+// Every resolution and aspect ratio some image model of this provider can produce
+export const getImageCapabilities = (provider: AIProvider): ImageCapabilities => {
+  const models = getModelsFor(provider, 'image');
+  return {
+    resolutions: [ImageSize.K1, ImageSize.K2, ImageSize.K4].filter(size => models.some(model => model.image?.resolutions.includes(size))),
+    aspectRatios: ALL_ASPECTS.filter(ratio => models.some(model => model.image?.aspectRatios.includes(ratio)))
+  };
+};
@@ -0,0 +1,132 @@
+import { AIProvider, GameHistoryItem, GameState, MemoryNotes, NarrativeMemory } from "./types";
+
+// Long-term story memory. Each committed beat adds a one-line recap and whatever NPCs, places and
+// promises the model reported; the whole thing is trimmed to the selected provider's budget
+// before it is sent with the next story request.
+
+export const EMPTY_MEMORY: NarrativeMemory = { recaps: [], npcs: [], places: [], promises: [] };
+
+// Tokens of memory context per story request. Local models usually run with small context windows.
+export const MEMORY_TOKEN_BUDGETS: Record<AIProvider, number> = {
+  [AIProvider.GEMINI]: 4000,
+  [AIProvider.OPENAI]: 2000,
+  [AIProvider.CLAUDE]: 3000,
+  [AIProvider.LOCAL]: 600
+};
+
+const MAX_RECAPS = 200;
+const MAX_FACTS = 40;
+const MAX_RECAP_LENGTH = 240;
+
+// Rough count (about four characters per token) that is good enough for budgeting
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const toStringList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim());
+};
+
+// Lenient on purpose: memory notes are a bonus, so a malformed block is dropped rather than repaired
+export const parseMemoryNotes = (value: unknown): MemoryNotes | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const input = value as Record<string, unknown>;
+  return {
+    summary: typeof input.summary === 'string' ? input.summary.trim() : '',
+    npcs: toStringList(input.npcs),
+    places: toStringList(input.places),
+    promises: toStringList(input.promises),
+    resolved: toStringList(input.resolved)
+  };
+};
+
+// Used when the model gave no summary: the beat's first sentence
+export const fallbackRecap = (storyText: string): string => {
+  const firstSentence = storyText.trim().match(/^[\s\S]*?[.!?](?=\s|$)/)?.[0] || storyText.trim();
+  return firstSentence.length > MAX_RECAP_LENGTH ? `${firstSentence.slice(0, MAX_RECAP_LENGTH - 1)}…` : firstSentence;
+};
+
+const sameFact = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Newly mentioned facts move to the end so the most recent ones survive trimming
+const mergeFacts = (existing: string[], incoming: string[]): string[] => {
+  const merged = existing.filter(fact => !incoming.some(item => sameFact(item, fact)));
+  return [...merged, ...incoming].slice(-MAX_FACTS);
+};
+
+export const rememberBeat = (memory: NarrativeMemory, storyText: string, notes?: MemoryNotes): NarrativeMemory => {
+  const recap = notes?.summary || fallbackRecap(storyText);
+  const resolved = notes?.resolved || [];
+  const openPromises = memory.promises.filter(promise => !resolved.some(item => sameFact(item, promise)));
+  return {
+    recaps: [...memory.recaps, recap].slice(-MAX_RECAPS),
+    npcs: mergeFacts(memory.npcs, notes?.npcs || []),
+    places: mergeFacts(memory.places, notes?.places || []),
+    promises: mergeFacts(openPromises, notes?.promises || [])
+  };
+};
+
+// For saves made before memory existed. History is newest-first, so it is replayed in reverse.
+export const rebuildMemory = (history: GameHistoryItem[]): NarrativeMemory => {
+  return [...history].reverse().reduce((memory, item) => rememberBeat(memory, item.text), EMPTY_MEMORY);
+};
+
+// Memory for a history cut back by a rewind or fork. Recaps written for the kept beats survive;
+// the facts are rebuilt as the story continues, since they may mention things from cut beats.
+export const rewindMemory = (memory: NarrativeMemory, history: GameHistoryItem[]): NarrativeMemory => {
+  const rebuilt = rebuildMemory(history);
+  if (memory.recaps.length < history.length || memory.recaps.length === MAX_RECAPS) return rebuilt;
+  return { ...rebuilt, recaps: memory.recaps.slice(0, history.length) };
+};
+
+const factLines = (memory: NarrativeMemory): string[] => {
+  const lines: string[] = [];
+  if (memory.npcs.length) lines.push(`Characters: ${memory.npcs.join(', ')}`);
+  if (memory.places.length) lines.push(`Places: ${memory.places.join(', ')}`);
+  if (memory.promises.length) lines.push(`Open promises: ${memory.promises.join('; ')}`);
+  return lines;
+};
+
+// Renders memory as prompt text within budgetTokens. Facts may use up to half the budget (oldest
+// dropped first); recaps fill the rest newest-first, so it is always the distant past that goes.
+export const buildMemoryContext = (memory: NarrativeMemory, budgetTokens: number): string => {
+  let facts = { ...memory };
+  const factBudget = Math.floor(budgetTokens / 2);
+  while (estimateTokens(factLines(facts).join('\n')) > factBudget && (facts.npcs.length || facts.places.length || facts.promises.length)) {
+    const longest = (['npcs', 'places', 'promises'] as const).reduce((a, b) => facts[a].length >= facts[b].length ? a : b);
+    facts = { ...facts, [longest]: facts[longest].slice(1) };
+  }
+  const factText = factLines(facts).join('\n');
+
+  let remaining = budgetTokens - estimateTokens(factText);
+  const recaps: string[] = [];
+  for (let i = memory.recaps.length - 1; i >= 0; i--) {
+    const line = `- ${memory.recaps[i]}`;
+    const cost = estimateTokens(line) + 1;
+    if (cost > remaining) break;
+    recaps.unshift(line);
+    remaining -= cost;
+  }
+  if (recaps.length < memory.recaps.length && recaps.length > 0) recaps.unshift('- (earlier events omitted)');
+
+  const sections: string[] = [];
+  if (recaps.length) sections.push(`Story so far:\n${recaps.join('\n')}`);
+  if (factText) sections.push(factText);
+  return sections.join('\n');
+};
+
+const budgetFor = (provider: AIProvider): number => MEMORY_TOKEN_BUDGETS[provider] ?? MEMORY_TOKEN_BUDGETS[AIProvider.LOCAL];
+
+export const memoryContextFor = (memory: NarrativeMemory, provider: AIProvider): string => {
+  return buildMemoryContext(memory, budgetFor(provider));
+};
+
+// Failover can hand the turn to any provider in the chain, so the context fits the smallest budget
+export const memoryContextForChain = (memory: NarrativeMemory, providers: AIProvider[]): string => {
+  return buildMemoryContext(memory, Math.min(...providers.map(budgetFor)));
+};
+
+// Separates the model's memory notes from the state that gets stored and sent back next turn
+export const splitMemoryNotes = (state: GameState): { state: GameState; notes?: MemoryNotes } => {
+  const { memoryNotes, ...rest } = state;
+  return { state: rest, notes: memoryNotes };
+};
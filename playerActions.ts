@@ -0,0 +1,31 @@
+import { ActionCheck, GameState } from "./types";
+
+// Actions the player types instead of picking one of the offered choices. The text is tidied up
+// here; whether the action can actually happen is left to the story model (see the playerAction
+// template), which reports its ruling as actionCheck alongside the new state.
+
+export const MAX_ACTION_LENGTH = 200;
+
+// Undefined when there is nothing to send
+export const normalizeAction = (text: string): string | undefined => {
+  const action = text.replace(/\s+/g, ' ').trim();
+  if (!action) return undefined;
+  return action.length > MAX_ACTION_LENGTH ? action.slice(0, MAX_ACTION_LENGTH).trim() : action;
+};
+
+// Lenient like memory notes: a ruling without a clear verdict is dropped
+export const parseActionCheck = (value: unknown): ActionCheck | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const input = value as Record<string, unknown>;
+  const plausible = typeof input.plausible === 'boolean' ? input.plausible
+    : input.plausible === 'true' ? true
+    : input.plausible === 'false' ? false
+    : undefined;
+  if (plausible === undefined) return undefined;
+  return { plausible, reason: typeof input.reason === 'string' ? input.reason.trim() : '' };
+};
+
+export const splitActionCheck = (state: GameState): { state: GameState; check?: ActionCheck } => {
+  const { actionCheck, ...rest } = state;
+  return { state: rest, check: actionCheck };
+};
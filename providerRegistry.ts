@@ -0,0 +1,88 @@
+import { GameState, AIProvider, ImageSize, AspectRatio, ChatMessage, GameHistoryItem } from "./types";
+import { ChroniclerToolContext } from "./chroniclerTools";
+
+export interface ServiceResponse<T> {
+  data: T;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    isPremium?: boolean;
+    provider: AIProvider;
+    // Model id that served the request, used to price it
+    model?: string;
+    // Provider-specific size label of a generated image (e.g. "4K", "hd 1792x1024"), for models priced by size
+    imageSize?: string;
+  };
+}
+
+export type ImageQuality = 'standard' | 'fast';
+
+// Resolution and shape of a generated image. Adapters map these onto their provider's own parameters.
+export interface ImageFormat {
+  resolution: ImageSize;
+  aspectRatio: AspectRatio;
+}
+
+export const DEFAULT_IMAGE_FORMAT: ImageFormat = { resolution: ImageSize.K1, aspectRatio: '1:1' };
+
+// Per-call options every adapter method accepts
+export interface RequestOptions {
+  // Aborting rejects the call with a CancelledError
+  signal?: AbortSignal;
+}
+
+export interface ImageRequestOptions extends RequestOptions {
+  format?: ImageFormat;
+}
+
+export interface ChatRequestOptions extends RequestOptions {
+  // Earlier conversation, oldest first. Adapters receive it already trimmed to their budget.
+  history?: ChatMessage[];
+  // Latest story beats, newest first as in GameHistoryItem lists
+  recentBeats?: GameHistoryItem[];
+  // When present the Chronicler may call read-only tools over this save (see chroniclerTools.ts)
+  toolContext?: ChroniclerToolContext;
+}
+
+// What a provider can do. The UI reads these flags instead of hardcoding provider names.
+export interface ProviderCapabilities {
+  story: boolean;
+  image: boolean;
+  chat: boolean;
+  streaming: boolean;
+}
+
+export interface ProviderAdapter {
+  id: AIProvider;
+  label: string;
+  capabilities: ProviderCapabilities;
+  // Story calls return the model's raw reply; aiService validates it into a GameState
+  generateStoryText: (prompt: string, options?: RequestOptions) => Promise<ServiceResponse<string>>;
+  // Only present when capabilities.streaming is true
+  streamStoryText?: (prompt: string, onStoryText: (text: string) => void, options?: RequestOptions) => Promise<ServiceResponse<string>>;
+  // Only present when capabilities.image is true
+  generateImage?: (prompt: string, style: string, quality: ImageQuality, format: ImageFormat, options?: RequestOptions) => Promise<ServiceResponse<string | undefined>>;
+  getChatResponse: (message: string, gameContext: GameState, options?: ChatRequestOptions) => Promise<ServiceResponse<string>>;
+  // Normalizes a provider-specific failure and rethrows it
+  handleError: (error: any) => never;
+}
+
+const registry = new Map<AIProvider, ProviderAdapter>();
+
+export const registerProvider = (adapter: ProviderAdapter): void => {
+  registry.set(adapter.id, adapter);
+};
+
+export const getProviderAdapter = (provider: AIProvider): ProviderAdapter => {
+  const adapter = registry.get(provider);
+  if (!adapter) throw new Error(`Unsupported provider: ${provider}`);
+  return adapter;
+};
+
+export const getRegisteredProviders = (): ProviderAdapter[] => {
+  return Array.from(registry.values());
+};
+
+export const getProviderCapabilities = (provider: AIProvider): ProviderCapabilities => {
+  return registry.get(provider)?.capabilities || { story: false, image: false, chat: false, streaming: false };
+};
@@ -0,0 +1,91 @@
+import { GameHistoryItem, GameState, Quest, QuestObjective, QuestStatus } from "./types";
+import { slugItemId } from "./inventory";
+
+// The quest log. The model returns every quest with each reply; the client merges that into the
+// previous log so quests are never silently dropped, remembers the beat each one started in and
+// the beat it ended in, and keeps finished quests finished.
+
+export const QUEST_STATUSES: QuestStatus[] = ['active', 'completed', 'failed', 'abandoned'];
+
+const toStatus = (value: unknown): QuestStatus => {
+  const status = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return QUEST_STATUSES.find(known => known === status) || 'active';
+};
+
+const parseObjective = (value: unknown): QuestObjective | undefined => {
+  if (typeof value === 'string') return value.trim() ? { text: value.trim(), done: false } : undefined;
+  if (!value || typeof value !== 'object') return undefined;
+  const input = value as Record<string, unknown>;
+  const text = typeof input.text === 'string' ? input.text.trim() : '';
+  return text ? { text, done: input.done === true || input.done === 'true' } : undefined;
+};
+
+// Lenient like memory notes. startedAt and endedAt are kept for saved logs; on fresh replies
+// settleQuests decides the real values.
+export const parseQuest = (value: unknown): Quest | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const input = value as Record<string, unknown>;
+  const title = typeof input.title === 'string' ? input.title.trim() : '';
+  if (!title) return undefined;
+  return {
+    id: typeof input.id === 'string' && input.id.trim() ? input.id.trim() : slugItemId(title),
+    title,
+    objectives: Array.isArray(input.objectives) ? input.objectives.map(parseObjective).filter((objective): objective is QuestObjective => !!objective) : [],
+    status: toStatus(input.status),
+    startedAt: Number.isInteger(input.startedAt) ? input.startedAt as number : 0,
+    ...(Number.isInteger(input.endedAt) ? { endedAt: input.endedAt as number } : {})
+  };
+};
+
+export const parseQuests = (value: unknown): Quest[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.map(parseQuest).filter((quest): quest is Quest => !!quest);
+};
+
+const sameQuest = (a: Quest, b: Quest) => a.id === b.id || a.title.toLowerCase() === b.title.toLowerCase();
+
+const questFor = (title: string, beatIndex: number): Quest => ({ id: slugItemId(title), title, objectives: [], status: 'active', startedAt: beatIndex });
+
+// previous is undefined for the opening beat. A reply without a log keeps the previous one, and
+// an opening without one starts the log from currentQuest.
+export const settleQuests = (state: GameState, previous: Quest[] | undefined, beatIndex: number): GameState => {
+  const proposed = state.quests ?? (!previous && state.currentQuest ? [questFor(state.currentQuest, beatIndex)] : []);
+  const carried = previous ?? [];
+  const stamp = ({ endedAt, ...quest }: Quest, startedAt: number): Quest =>
+    ({ ...quest, startedAt, ...(quest.status !== 'active' ? { endedAt: beatIndex } : {}) });
+  const kept = carried.map(old => {
+    const next = proposed.find(quest => sameQuest(old, quest));
+    if (!next || old.status !== 'active') return old;
+    return stamp({ ...next, id: old.id }, old.startedAt);
+  });
+  const added = proposed
+    .filter((quest, i) => !carried.some(old => sameQuest(old, quest)) && proposed.findIndex(other => sameQuest(other, quest)) === i)
+    .map(quest => stamp(quest, beatIndex));
+  return { ...state, quests: [...kept, ...added] };
+};
+
+export type QuestEvent = { kind: 'started' | QuestStatus; quest: Quest };
+
+// What happened to the log in one beat, for the archives
+export const questEventsAt = (quests: Quest[], beatIndex: number): QuestEvent[] => [
+  ...quests.filter(quest => quest.startedAt === beatIndex).map(quest => ({ kind: 'started' as const, quest })),
+  ...quests.filter(quest => quest.endedAt === beatIndex).map(quest => ({ kind: quest.status, quest }))
+];
+
+// Active quests first, then finished ones with the most recent at the top
+export const sortQuests = (quests: Quest[]): Quest[] => [
+  ...quests.filter(quest => quest.status === 'active'),
+  ...quests.filter(quest => quest.status !== 'active').sort((a, b) => (b.endedAt ?? 0) - (a.endedAt ?? 0))
+];
+
+// For saves from before the quest log: the current quest becomes its only entry, started at the
+// earliest beat of the unbroken run (oldest first) that already had it. state comes straight from
+// the stored record, so currentQuest is checked rather than trusted.
+export const upgradeQuestLog = (state: { currentQuest?: unknown }, history: GameHistoryItem[]): Quest[] => {
+  const { currentQuest } = state;
+  if (typeof currentQuest !== 'string' || !currentQuest) return [];
+  const oldestFirst = [...history].reverse();
+  let startedAt = oldestFirst.length;
+  while (startedAt > 0 && oldestFirst[startedAt - 1].state?.currentQuest === currentQuest) startedAt--;
+  return [questFor(currentQuest, Math.min(startedAt, Math.max(0, oldestFirst.length - 1)))];
+};
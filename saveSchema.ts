@@ -0,0 +1,146 @@
+import { GameHistoryItem, SaveSlot, UsageStats } from "./types";
+import { validateGameState, applyDefaults, formatIssues } from "./gameStateValidator";
+import { rebuildMemory } from "./narrativeMemory";
+import { upgradeInventory, upgradeInventoryHistory } from "./inventory";
+import { seedFromText } from "./dice";
+import { upgradeQuestLog } from "./questLog";
+
+// Save slots carry a schemaVersion. Loading runs every migration from the slot's version up to
+// SAVE_SCHEMA_VERSION, then checks the result; whatever cannot be upgraded is reported so the
+// caller can quarantine it instead of loading half a save.
+//
+//   0  anything written before versioning
+//   1  name, genre, history, chat log and every usage counter are always present
+//   2  narrative memory is always present
+//   3  usage counts rerolls separately
+//   4  inventories hold structured items instead of names
+//   5  every save has a dice seed
+//   6  game states keep a quest log
+
+export const SAVE_SCHEMA_VERSION = 6;
+
+// A stored slot of any version; migrations check each field before they trust it
+export type SaveRecord = Record<string, unknown>;
+
+// Upgrades a slot from the version it is keyed under to the next one
+export type SaveMigration = (slot: SaveRecord) => SaveRecord;
+
+export const EMPTY_USAGE: UsageStats = { inputTokens: 0, outputTokens: 0, imageCount: 0, premiumImageCount: 0, estimatedCost: 0, rerollCount: 0, rerollCost: 0 };
+
+const isRecord = (value: unknown): value is SaveRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Runs upgrade over the state of a beat and of each of its takes
+const upgradeBeatStates = (item: unknown, upgrade: (state: unknown) => unknown): unknown => {
+  if (!isRecord(item)) return item;
+  return {
+    ...item,
+    ...(item.state ? { state: upgrade(item.state) } : {}),
+    ...(Array.isArray(item.takes) ? { takes: item.takes.map((take: unknown) => isRecord(take) ? { ...take, state: upgrade(take.state) } : take) } : {})
+  };
+};
+
+export const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  0: slot => {
+    const genre = slot.genre || (isRecord(slot.gameState) ? slot.gameState.genre : undefined) || 'Unknown';
+    return {
+      ...slot,
+      name: typeof slot.name === 'string' && slot.name ? slot.name : `${genre} - Untitled`,
+      genre,
+      lastUpdated: Number(slot.lastUpdated) || 0,
+      history: slot.history ?? [],
+      chatMessages: slot.chatMessages ?? [],
+      usageStats: { ...EMPTY_USAGE, ...(isRecord(slot.usageStats) ? slot.usageStats : {}) }
+    };
+  },
+  1: slot => ({
+    ...slot,
+    memory: slot.memory ?? rebuildMemory(Array.isArray(slot.history) ? slot.history as GameHistoryItem[] : [])
+  }),
+  2: slot => ({
+    ...slot,
+    usageStats: { rerollCount: 0, rerollCost: 0, ...(isRecord(slot.usageStats) ? slot.usageStats : {}) }
+  }),
+  3: slot => {
+    if (!Array.isArray(slot.history)) return slot; // checkSlot reports it
+    const history: unknown[] = slot.history;
+    const firstSeen = upgradeInventoryHistory(history as GameHistoryItem[]);
+    const upgradeState = (state: unknown) => isRecord(state) ? { ...state, inventory: upgradeInventory(state.inventory, firstSeen) } : state;
+    return {
+      ...slot,
+      gameState: upgradeState(slot.gameState),
+      history: history.map(item => upgradeBeatStates(item, upgradeState))
+    };
+  },
+  // Derived from the id so upgrading the same save twice gives the same seed
+  4: slot => ({
+    ...slot,
+    diceSeed: Number.isInteger(slot.diceSeed) ? slot.diceSeed : seedFromText(String(slot.id))
+  }),
+  5: slot => {
+    if (!Array.isArray(slot.history)) return slot; // checkSlot reports it
+    const history: unknown[] = slot.history;
+    // Each beat's log only knows the beats up to it
+    const withLog = (state: unknown, position: number) => isRecord(state) && !Array.isArray(state.quests)
+      ? { ...state, quests: upgradeQuestLog(state, history.slice(position) as GameHistoryItem[]) }
+      : state;
+    return {
+      ...slot,
+      gameState: withLog(slot.gameState, 0),
+      history: history.map((item, position) => upgradeBeatStates(item, state => withLog(state, position)))
+    };
+  }
+};
+
+export interface SaveUpgrade {
+  slot?: SaveSlot;
+  // Why the record could not be loaded; set whenever slot is not
+  error?: string;
+  // True when the slot changed and should be written back
+  upgraded: boolean;
+}
+
+// The checks that make a migrated record safe to hand to the game
+const checkSlot = (slot: SaveRecord): string | undefined => {
+  if (typeof slot.id !== 'string' || !slot.id) return 'Missing save id';
+  if (!Array.isArray(slot.history)) return 'Story history is not a list';
+  if (!Array.isArray(slot.chatMessages)) return 'Chat log is not a list';
+  if (slot.history.some((item: unknown) => !isRecord(item) || typeof item.text !== 'string')) return 'Story history has unreadable entries';
+  return undefined;
+};
+
+export const upgradeSave = (raw: unknown): SaveUpgrade => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Not a save record', upgraded: false };
+  }
+  let slot = raw as SaveRecord;
+  const version = slot.schemaVersion ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    return { error: `Unknown save version: ${JSON.stringify(version)}`, upgraded: false };
+  }
+  if (version > SAVE_SCHEMA_VERSION) {
+    return { error: `Saved by a newer version of the game (schema ${version})`, upgraded: false };
+  }
+
+  try {
+    for (let from = version; from < SAVE_SCHEMA_VERSION; from++) {
+      slot = SAVE_MIGRATIONS[from](slot);
+    }
+  } catch (error) {
+    return { error: `Upgrade from schema ${version} failed: ${error instanceof Error ? error.message : String(error)}`, upgraded: false };
+  }
+
+  const problem = checkSlot(slot);
+  if (problem) return { error: problem, upgraded: false };
+
+  // A game state with a story can be patched up; one without is not worth loading
+  const validation = validateGameState(slot.gameState);
+  if (!validation.state && !validation.partial.storyText) {
+    return { error: `Game state is unreadable:\n${formatIssues(validation.issues)}`, upgraded: false };
+  }
+  const gameState = validation.state || applyDefaults(validation.partial);
+
+  return {
+    slot: { ...slot, gameState, schemaVersion: SAVE_SCHEMA_VERSION } as SaveSlot,
+    upgraded: version !== SAVE_SCHEMA_VERSION || !validation.state
+  };
+};
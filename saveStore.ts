@@ -0,0 +1,307 @@
+import { SaveSlot } from "./types";
+import { SAVE_SCHEMA_VERSION, EMPTY_USAGE, upgradeSave } from "./saveSchema";
+
+// The one place saves and preferences are persisted. Each save slot is its own record, so
+// writing the current game never rewrites the others. IndexedDB is used where the browser
+// allows it and localStorage otherwise; both sit behind the same StorageBackend interface.
+
+export type StoreName = 'slots' | 'meta' | 'quarantine';
+
+// One record from getAll. Records that are not valid JSON come back as their raw text.
+export interface StoredRecord<T> {
+  key: string;
+  value?: T;
+  unreadable?: string;
+}
+
+export interface StorageBackend {
+  kind: 'indexedDB' | 'localStorage';
+  get: <T>(store: StoreName, key: string) => Promise<T | undefined>;
+  put: <T>(store: StoreName, key: string, value: T) => Promise<void>;
+  delete: (store: StoreName, key: string) => Promise<void>;
+  getAll: <T>(store: StoreName) => Promise<StoredRecord<T>[]>;
+}
+
+// A save that could not be loaded, kept so the player can see it and take a copy
+export interface QuarantinedSave {
+  key: string;
+  reason: string;
+  quarantinedAt: number;
+  raw: string;
+}
+
+export interface Preferences {
+  fontSize: number;
+  budgetThreshold: number;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  fontSize: 16,
+  budgetThreshold: 5.00
+};
+
+// Keys written by earlier versions, read once by migrateLegacyStorage and then removed
+export const LEGACY_KEYS = {
+  saves: 'CHRONICLE_WEAVER_SAVES_V2',
+  autosavePrefix: 'autosave_',
+  fontSize: 'PREF_FONT_SIZE',
+  budgetThreshold: 'BUDGET_THRESHOLD'
+};
+
+const MIGRATION_VERSION = 1;
+const LOCAL_PREFIX = 'CHRONICLE_WEAVER_';
+const DB_NAME = 'chronicle-weaver';
+const DB_VERSION = 2;
+const STORES: StoreName[] = ['slots', 'meta', 'quarantine'];
+
+const localKey = (store: StoreName, key: string) => `${LOCAL_PREFIX}${store.toUpperCase()}_${key}`;
+
+const isQuotaError = (error: unknown) => error instanceof DOMException && error.name === 'QuotaExceededError';
+
+export const createLocalStorageBackend = (storage: Storage = localStorage): StorageBackend => {
+  const read = <T>(key: string): T | undefined => {
+    const raw = storage.getItem(key);
+    if (raw === null) return undefined;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      console.warn('Ignoring unreadable stored record:', key);
+      return undefined;
+    }
+  };
+
+  return {
+    kind: 'localStorage',
+    get: async (store, key) => read(localKey(store, key)),
+    put: async (store, key, value) => storage.setItem(localKey(store, key), JSON.stringify(value)),
+    delete: async (store, key) => storage.removeItem(localKey(store, key)),
+    getAll: async <T>(store: StoreName) => {
+      const prefix = localKey(store, '');
+      const records: StoredRecord<T>[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const storageKey = storage.key(i);
+        if (!storageKey?.startsWith(prefix)) continue;
+        const raw = storage.getItem(storageKey) ?? '';
+        const key = storageKey.slice(prefix.length);
+        try {
+          records.push({ key, value: JSON.parse(raw) });
+        } catch {
+          records.push({ key, unreadable: raw });
+        }
+      }
+      return records;
+    }
+  };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Resolves only once the database is open, so a browser that refuses IndexedDB can be detected
+export const openIndexedDbBackend = async (factory: IDBFactory = indexedDB): Promise<StorageBackend> => {
+  const request = factory.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    for (const store of STORES) {
+      if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store);
+    }
+  };
+  const db = await requestToPromise(request);
+  const run = <T>(store: StoreName, mode: IDBTransactionMode, call: (objectStore: IDBObjectStore) => IDBRequest<T>) => {
+    return requestToPromise(call(db.transaction(store, mode).objectStore(store)));
+  };
+
+  return {
+    kind: 'indexedDB',
+    get: (store, key) => run(store, 'readonly', objectStore => objectStore.get(key)),
+    put: async (store, key, value) => { await run(store, 'readwrite', objectStore => objectStore.put(value, key)); },
+    delete: async (store, key) => { await run(store, 'readwrite', objectStore => objectStore.delete(key)); },
+    getAll: async <T>(store: StoreName) => {
+      const [keys, values] = await Promise.all([
+        run(store, 'readonly', objectStore => objectStore.getAllKeys()),
+        run(store, 'readonly', objectStore => objectStore.getAll())
+      ]);
+      return keys.map((key, index): StoredRecord<T> => ({ key: String(key), value: values[index] }));
+    }
+  };
+};
+
+let opening: Promise<StorageBackend> | null = null;
+
+const openStorage = async (): Promise<StorageBackend> => {
+  let backend: StorageBackend = createLocalStorageBackend();
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      backend = await openIndexedDbBackend();
+    } catch (error) {
+      console.warn('IndexedDB unavailable, keeping saves in localStorage', error);
+    }
+  }
+  await migrateLegacyStorage(backend);
+  return backend;
+};
+
+export const getStorage = (): Promise<StorageBackend> => {
+  if (!opening) opening = openStorage();
+  return opening;
+};
+
+// Tests swap in their own backend; null goes back to picking one automatically
+export const setStorageBackend = (backend: StorageBackend | null): void => {
+  opening = backend ? migrateLegacyStorage(backend).then(() => backend) : null;
+};
+
+const quarantine = async (backend: StorageBackend, key: string, reason: string, raw: unknown): Promise<void> => {
+  console.warn(`Quarantining save ${key}: ${reason}`);
+  const entry: QuarantinedSave = {
+    key,
+    reason,
+    quarantinedAt: Date.now(),
+    raw: typeof raw === 'string' ? raw : JSON.stringify(raw, null, 2)
+  };
+  await backend.put('quarantine', key, entry);
+};
+
+// Unreadable legacy data is quarantined rather than lost
+const readLegacy = async <T>(backend: StorageBackend, key: string): Promise<T | undefined> => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    await quarantine(backend, `legacy-${key}`, 'Unreadable data from an older version', raw);
+    return undefined;
+  }
+};
+
+// Autosaves were written on every change but never read back, so for some players they are the
+// only copy of their latest turns. A newer autosave updates its slot; one without a slot becomes
+// a recovered save of its own. Slots here are still in their old shape; loadSaves upgrades them.
+const applyAutosave = (slots: Map<string, any>, id: string, autosave: any): void => {
+  if (!autosave?.gameState) return;
+  const lastSaved = Number(autosave.lastSaved) || 0;
+  const existing = slots.get(id);
+  if (existing) {
+    if (lastSaved <= existing.lastUpdated) return;
+    slots.set(id, {
+      ...existing,
+      gameState: autosave.gameState,
+      history: Array.isArray(autosave.history) ? autosave.history : existing.history,
+      usageStats: autosave.usageStats || existing.usageStats,
+      lastUpdated: lastSaved
+    });
+    return;
+  }
+  const genre = autosave.gameState.genre || 'Unknown';
+  slots.set(id, {
+    id,
+    name: `${genre} - Recovered`,
+    genre,
+    lastUpdated: lastSaved || Date.now(),
+    gameState: autosave.gameState,
+    history: Array.isArray(autosave.history) ? autosave.history : [],
+    chatMessages: [],
+    usageStats: autosave.usageStats || EMPTY_USAGE
+  });
+};
+
+// One-time move of V2 saves, orphaned autosaves and loose preference keys into the backend.
+// Legacy keys are removed only after everything was written.
+export const migrateLegacyStorage = async (backend: StorageBackend): Promise<void> => {
+  if ((await backend.get<number>('meta', 'migrationVersion')) === MIGRATION_VERSION) return;
+
+  const slots = new Map<string, any>();
+  const legacySaves = await readLegacy<unknown[]>(backend, LEGACY_KEYS.saves);
+  const legacyList = Array.isArray(legacySaves) ? legacySaves : [];
+  for (const [index, slot] of legacyList.entries()) {
+    if (slot && typeof slot === 'object' && typeof (slot as SaveSlot).id === 'string') {
+      slots.set((slot as SaveSlot).id, slot);
+    } else {
+      await quarantine(backend, `legacy-save-${index}`, 'Save from an older version has no id', slot);
+    }
+  }
+
+  const autosaveKeys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(LEGACY_KEYS.autosavePrefix)) autosaveKeys.push(key);
+  }
+  for (const key of autosaveKeys) {
+    applyAutosave(slots, key.slice(LEGACY_KEYS.autosavePrefix.length), await readLegacy(backend, key));
+  }
+
+  for (const slot of slots.values()) {
+    if (!(await backend.get('slots', slot.id))) await backend.put('slots', slot.id, slot);
+  }
+
+  const preferences = { ...DEFAULT_PREFERENCES, ...(await backend.get<Partial<Preferences>>('meta', 'preferences')) };
+  const fontSize = parseInt(localStorage.getItem(LEGACY_KEYS.fontSize) || '');
+  const budgetThreshold = parseFloat(localStorage.getItem(LEGACY_KEYS.budgetThreshold) || '');
+  if (Number.isFinite(fontSize)) preferences.fontSize = fontSize;
+  if (Number.isFinite(budgetThreshold)) preferences.budgetThreshold = budgetThreshold;
+  await backend.put('meta', 'preferences', preferences);
+
+  await backend.put('meta', 'migrationVersion', MIGRATION_VERSION);
+  for (const key of [LEGACY_KEYS.saves, LEGACY_KEYS.fontSize, LEGACY_KEYS.budgetThreshold, ...autosaveKeys]) {
+    localStorage.removeItem(key);
+  }
+};
+
+// Most recently played first. Older slots are upgraded and written back; slots that cannot be
+// read or upgraded are moved to the quarantine.
+export const loadSaves = async (): Promise<SaveSlot[]> => {
+  const backend = await getStorage();
+  const slots: SaveSlot[] = [];
+  for (const record of await backend.getAll<unknown>('slots')) {
+    const upgrade = record.unreadable === undefined ? upgradeSave(record.value) : { error: 'Unreadable data', upgraded: false };
+    if (!upgrade.slot) {
+      await quarantine(backend, record.key, upgrade.error || 'Unreadable data', record.unreadable ?? record.value);
+      await backend.delete('slots', record.key);
+      continue;
+    }
+    if (upgrade.upgraded) await backend.put('slots', upgrade.slot.id, upgrade.slot);
+    slots.push(upgrade.slot);
+  }
+  return slots.sort((a, b) => b.lastUpdated - a.lastUpdated);
+};
+
+// If the backend is full, scene images held inline are dropped to keep the story itself
+export const writeSave = async (save: SaveSlot): Promise<void> => {
+  const backend = await getStorage();
+  const slot = { ...save, schemaVersion: SAVE_SCHEMA_VERSION };
+  try {
+    await backend.put('slots', slot.id, slot);
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    console.warn("Storage quota exceeded. Purging inline scene images to preserve narrative state.");
+    await backend.put('slots', slot.id, { ...slot, history: slot.history.map(item => ({ ...item, imageUrl: undefined })) });
+  }
+};
+
+export const removeSave = async (id: string): Promise<void> => {
+  await (await getStorage()).delete('slots', id);
+};
+
+// Newest first
+export const loadQuarantine = async (): Promise<QuarantinedSave[]> => {
+  const records = await (await getStorage()).getAll<QuarantinedSave>('quarantine');
+  return records
+    .map(record => record.value)
+    .filter((entry): entry is QuarantinedSave => !!entry?.key)
+    .sort((a, b) => b.quarantinedAt - a.quarantinedAt);
+};
+
+export const discardQuarantined = async (key: string): Promise<void> => {
+  await (await getStorage()).delete('quarantine', key);
+};
+
+export const loadPreferences = async (): Promise<Preferences> => {
+  return { ...DEFAULT_PREFERENCES, ...(await (await getStorage()).get<Partial<Preferences>>('meta', 'preferences')) };
+};
+
+export const savePreferences = async (changes: Partial<Preferences>): Promise<Preferences> => {
+  const preferences = { ...(await loadPreferences()), ...changes };
+  await (await getStorage()).put('meta', 'preferences', preferences);
+  return preferences;
+};
@@ -0,0 +1,227 @@
+import { jest } from '@jest/globals';
+import {
+  classifyHttpError,
+  parseRetryAfter,
+  backoffDelay,
+  withRetry,
+  withTimeout,
+  describeError,
+  AuthError,
+  ModelNotFoundError,
+  RateLimitError,
+  QuotaExhaustedError,
+  ContentBlockedError,
+  NetworkError,
+  TimeoutError,
+  MalformedResponseError,
+  RequestRejectedError,
+  CancelledError
+} from '../../aiErrors.ts';
+import { generateStoryBeat, generateImage, setStoredApiKey, setLocalModelSettings, setFailoverChain } from '../../aiService.ts';
+import { getProviderAdapter } from '../../providerRegistry.ts';
+import { AIProvider, GameState } from '../../types.ts';
+
+const headers = (values: Record<string, string>) => ({ get: (name: string) => values[name] ?? null }) as unknown as Headers;
+
+describe('classifyHttpError', () => {
+  it('should map statuses to typed errors', () => {
+    expect(classifyHttpError(AIProvider.OPENAI, 401, '')).toBeInstanceOf(AuthError);
+    expect(classifyHttpError(AIProvider.CLAUDE, 529, 'overloaded')).toBeInstanceOf(NetworkError);
+    expect(classifyHttpError(AIProvider.OPENAI, 408, '')).toBeInstanceOf(TimeoutError);
+    expect(classifyHttpError(AIProvider.OPENAI, 400, '{"error":{"code":"content_policy_violation"}}')).toBeInstanceOf(ContentBlockedError);
+  });
+
+  it('should tell quota exhaustion apart from throttling', () => {
+    expect(classifyHttpError(AIProvider.OPENAI, 429, '{"error":{"code":"insufficient_quota"}}')).toBeInstanceOf(QuotaExhaustedError);
+
+    const throttled = classifyHttpError(AIProvider.OPENAI, 429, 'slow down', headers({ 'retry-after': '3' }));
+    expect(throttled).toBeInstanceOf(RateLimitError);
+    expect((throttled as RateLimitError).retryAfterMs).toBe(3000);
+  });
+
+  it('should keep other client errors in the taxonomy with their status', () => {
+    const error = classifyHttpError(AIProvider.OPENAI, 409, 'conflict');
+    expect(error).toBeInstanceOf(RequestRejectedError);
+    expect(error).toMatchObject({ status: 409, retryable: false });
+    expect(describeError(error).title).toBe('Request rejected');
+  });
+});
+
+describe('Retry Policy', () => {
+  it('should parse Retry-After seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+  it('should keep jittered backoff under the exponential ceiling', () => {
+    const error = new NetworkError(AIProvider.GEMINI, 503);
+    expect(backoffDelay(0, error, { baseDelayMs: 100, random: () => 1 })).toBe(100);
+    expect(backoffDelay(3, error, { baseDelayMs: 100, random: () => 0.5 })).toBe(400);
+    expect(backoffDelay(10, error, { baseDelayMs: 100, maxDelayMs: 1000, random: () => 1 })).toBe(1000);
+  });
+
+  it('should prefer the provider retry-after over backoff', () => {
+    expect(backoffDelay(0, new RateLimitError(AIProvider.OPENAI, 1500), { random: () => 0 })).toBe(1500);
+  });
+
+  it('should retry transient failures and then succeed', async () => {
+    const sleep = jest.fn(async (_ms: number) => {});
+    const call = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new NetworkError(AIProvider.OPENAI, 502))
+      .mockRejectedValueOnce(new TimeoutError(AIProvider.OPENAI, 1000))
+      .mockResolvedValueOnce('ok');
+
+    await expect(withRetry(call, { sleep })).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry permanent failures', async () => {
+    const sleep = jest.fn(async (_ms: number) => {});
+    const call = jest.fn<() => Promise<string>>().mockRejectedValue(new QuotaExhaustedError(AIProvider.OPENAI));
+
+    await expect(withRetry(call, { sleep })).rejects.toBeInstanceOf(QuotaExhaustedError);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after the last attempt', async () => {
+    const call = jest.fn<() => Promise<string>>().mockRejectedValue(new NetworkError(AIProvider.OPENAI));
+
+    await expect(withRetry(call, { maxAttempts: 2, sleep: async () => {} })).rejects.toBeInstanceOf(NetworkError);
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Provider Error Handling', () => {
+  const mockFetch = jest.fn() as any;
+  const validState: GameState = {
+    storyText: 'Again.',
+    choices: ['Wait'],
+    inventory: [],
+    currentQuest: 'Be patient',
+    visualPrompt: 'An hourglass',
+    worldStyle: 'Fantasy',
+    genre: 'Fantasy'
+  };
+
+  const notFound = (body: string) => ({ ok: false, status: 404, statusText: 'Not Found', text: async () => body, headers: headers({}) });
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    setStoredApiKey(AIProvider.OPENAI, 'test-openai-key');
+  });
+
+  it('should raise AuthError for a rejected key', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 401, statusText: 'Unauthorized', text: async () => 'invalid key', headers: headers({}) });
+
+    await expect(generateStoryBeat('Begin', AIProvider.OPENAI)).rejects.toBeInstanceOf(AuthError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry a rate-limited request', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 429, statusText: 'Too Many Requests', text: async () => 'slow down', headers: headers({ 'retry-after': '0' }) })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: JSON.stringify(validState) } }], usage: { prompt_tokens: 1, completion_tokens: 1 } })
+      });
+
+    const result = await generateStoryBeat('Begin', AIProvider.OPENAI);
+    expect(result.data.storyText).toBe('Again.');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not blame the Gemini key for an unknown model', () => {
+    const { handleError } = getProviderAdapter(AIProvider.GEMINI);
+    expect(() => handleError({ status: 404, message: 'models/gemini-9-pro is not found for API version v1beta' })).toThrow(ModelNotFoundError);
+    expect(() => handleError({ status: 403, message: 'Permission denied' })).toThrow(AuthError);
+  });
+
+  it('should report an unknown OpenAI model', async () => {
+    mockFetch.mockResolvedValue(notFound('{"error":{"message":"The model `gpt-9` does not exist","code":"model_not_found"}}'));
+
+    await expect(generateStoryBeat('Begin', AIProvider.OPENAI)).rejects.toBeInstanceOf(ModelNotFoundError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report an unknown Claude model', async () => {
+    setStoredApiKey(AIProvider.CLAUDE, 'test-claude-key');
+    mockFetch.mockResolvedValue(notFound('{"type":"error","error":{"type":"not_found_error","message":"model: claude-9"}}'));
+
+    await expect(generateStoryBeat('Begin', AIProvider.CLAUDE)).rejects.toBeInstanceOf(ModelNotFoundError);
+  });
+
+  it('should report a model the local server has not pulled', async () => {
+    setLocalModelSettings({ baseUrl: 'http://localhost:11434/v1', model: 'llama9' });
+    mockFetch.mockResolvedValue(notFound('{"error":"model \\"llama9\\" not found, try pulling it first"}'));
+
+    await expect(generateStoryBeat('Begin', AIProvider.LOCAL)).rejects.toBeInstanceOf(ModelNotFoundError);
+  });
+
+  it('should raise MalformedResponseError for unreadable JSON', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ choices: [{ message: { content: 'not json' } }] }) });
+
+    await expect(generateStoryBeat('Begin', AIProvider.OPENAI)).rejects.toBeInstanceOf(MalformedResponseError);
+  });
+});
+
+describe('describeError', () => {
+  it('should explain each error kind to the player', () => {
+    expect(describeError(new RateLimitError(AIProvider.OPENAI)).title).toBe('Too many requests');
+    expect(describeError(new QuotaExhaustedError(AIProvider.GEMINI)).detail).toContain('(gemini)');
+    expect(describeError(new ModelNotFoundError(AIProvider.GEMINI)).title).toBe('Model not found');
+    expect(describeError(new Error('boom')).title).toBe('Something went wrong');
+  });
+});
+
+describe('Cancellation', () => {
+  const mockFetch = jest.fn() as any;
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    localStorage.clear();
+    setStoredApiKey(AIProvider.OPENAI, 'test-openai-key');
+  });
+
+  it('should not send a request when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(generateStoryBeat('Begin', AIProvider.OPENAI, { signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should pass a linked signal to fetch and reject as soon as it aborts', async () => {
+    mockFetch.mockReturnValue(new Promise(() => {}));
+    const controller = new AbortController();
+
+    const pending = generateImage('A lighthouse', 'Gothic', AIProvider.OPENAI, 'standard', { signal: controller.signal });
+    await Promise.resolve();
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(CancelledError);
+    expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+
+  it('should abort the request underneath when it times out', async () => {
+    let sent: AbortSignal | undefined;
+    const call = (signal: AbortSignal) => {
+      sent = signal;
+      return new Promise<never>(() => {});
+    };
+
+    await expect(withTimeout(call, 5, AIProvider.OPENAI)).rejects.toBeInstanceOf(TimeoutError);
+    expect(sent?.aborted).toBe(true);
+  });
+
+  it('should neither retry nor fail over a cancelled request', async () => {
+    setLocalModelSettings({ baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' });
+    setFailoverChain([AIProvider.LOCAL]);
+    mockFetch.mockRejectedValue(Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' }));
+
+    await expect(generateStoryBeat('Begin', AIProvider.OPENAI)).rejects.toBeInstanceOf(CancelledError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
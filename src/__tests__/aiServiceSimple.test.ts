@@ -16,62 +16,84 @@ describe('AI Service - Cost Calculation', () => {
   });
 
   describe('calculateEstimatedCost', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
     it('should calculate costs correctly for Gemini Flash', () => {
-      const cost = calculateEstimatedCost(1000, 500, 2, 1, AIProvider.GEMINI, 'flash');
+      const cost = calculateEstimatedCost(1000, 500, 2, 1, AIProvider.GEMINI, 'gemini-2.0-flash-exp');
       
-      // Gemini Flash: $0.1/1M input, $0.4/1M output, $0.0008/image
+      // Gemini 2.0 Flash: $0.1/1M input, $0.4/1M output, $0.0008/image
       // Both regular and premium images use the same pricing
       const expectedCost = (1000 * 0.1/1000000) + (500 * 0.4/1000000) + (2 * 0.0008) + (1 * 0.0008);
       expect(cost).toBeCloseTo(expectedCost, 6);
     });
 
     it('should calculate costs correctly for Gemini Pro', () => {
-      const cost = calculateEstimatedCost(1000, 500, 2, 1, AIProvider.GEMINI, 'pro');
+      const cost = calculateEstimatedCost(1000, 500, 0, 0, AIProvider.GEMINI, 'gemini-1.5-pro');
       
-      // Gemini Pro: $1.25/1M input, $5.0/1M output, $0.04/image
-      const expectedCost = (1000 * 1.25/1000000) + (500 * 5.0/1000000) + (2 * 0.04) + (1 * 0.04);
+      // Gemini 1.5 Pro: $1.25/1M input, $5.0/1M output
+      const expectedCost = (1000 * 1.25/1000000) + (500 * 5.0/1000000);
       expect(cost).toBeCloseTo(expectedCost, 6);
     });
 
-    it('should calculate costs correctly for OpenAI standard', () => {
-      const cost = calculateEstimatedCost(1000, 500, 2, 1, AIProvider.OPENAI, 'standard');
+    it('should bill OpenAI text at the model that served it', () => {
+      const cost = calculateEstimatedCost(1000, 500, 0, 0, AIProvider.OPENAI, 'gpt-4o-mini');
       
-      // OpenAI GPT-3.5: $0.5/1M input, $1.5/1M output, $0.02/image
-      const expectedCost = (1000 * 0.5/1000000) + (500 * 1.5/1000000) + (2 * 0.02) + (1 * 0.02);
+      // GPT-4o mini: $0.15/1M input, $0.6/1M output
+      const expectedCost = (1000 * 0.15/1000000) + (500 * 0.6/1000000);
       expect(cost).toBeCloseTo(expectedCost, 6);
     });
 
-    it('should calculate costs correctly for OpenAI pro', () => {
-      const cost = calculateEstimatedCost(1000, 500, 2, 1, AIProvider.OPENAI, 'pro');
+    it('should calculate costs correctly for GPT-4o', () => {
+      const cost = calculateEstimatedCost(1000, 500, 0, 0, AIProvider.OPENAI, 'gpt-4o');
       
-      // OpenAI GPT-4: $10/1M input, $30/1M output, $0.04/image
-      const expectedCost = (1000 * 10/1000000) + (500 * 30/1000000) + (2 * 0.04) + (1 * 0.04);
+      // GPT-4o: $2.5/1M input, $10/1M output
+      const expectedCost = (1000 * 2.5/1000000) + (500 * 10/1000000);
       expect(cost).toBeCloseTo(expectedCost, 6);
     });
 
+    it('should price DALL-E images per image', () => {
+      expect(calculateEstimatedCost(0, 0, 0, 1, AIProvider.OPENAI, 'dall-e-3')).toBeCloseTo(0.04, 6);
+      expect(calculateEstimatedCost(0, 0, 0, 1, AIProvider.OPENAI, 'dall-e-2')).toBeCloseTo(0.02, 6);
+    });
+
     it('should calculate costs correctly for Claude Haiku', () => {
-      const cost = calculateEstimatedCost(1000, 500, 0, 0, AIProvider.CLAUDE, 'flash');
+      const cost = calculateEstimatedCost(1000, 500, 0, 0, AIProvider.CLAUDE, 'claude-3-5-haiku-20241022');
       
-      // Claude Haiku: $0.25/1M input, $1.25/1M output, $0.03/image
-      const expectedCost = (1000 * 0.25/1000000) + (500 * 1.25/1000000);
+      // Claude 3.5 Haiku: $0.8/1M input, $4/1M output
+      const expectedCost = (1000 * 0.8/1000000) + (500 * 4/1000000);
       expect(cost).toBeCloseTo(expectedCost, 6);
     });
 
     it('should calculate costs correctly for Claude Sonnet', () => {
-      const cost = calculateEstimatedCost(1000, 500, 1, 0, AIProvider.CLAUDE, 'pro');
+      const cost = calculateEstimatedCost(1000, 500, 0, 0, AIProvider.CLAUDE, 'claude-3-5-sonnet-20241022');
       
-      // Claude Sonnet: $3/1M input, $15/1M output, $0.06/image
-      const expectedCost = (1000 * 3/1000000) + (500 * 15/1000000) + (1 * 0.06);
+      // Claude 3.5 Sonnet: $3/1M input, $15/1M output
+      const expectedCost = (1000 * 3/1000000) + (500 * 15/1000000);
       expect(cost).toBeCloseTo(expectedCost, 6);
     });
 
+    it('should use the selected text model when no model is given', () => {
+      const cost = calculateEstimatedCost(1000, 500, 0, 0, AIProvider.OPENAI);
+      
+      // Default OpenAI text model is GPT-4o mini
+      const expectedCost = (1000 * 0.15/1000000) + (500 * 0.6/1000000);
+      expect(cost).toBeCloseTo(expectedCost, 6);
+    });
+
+    it('should charge nothing for local models', () => {
+      const cost = calculateEstimatedCost(100000, 50000, 0, 0, AIProvider.LOCAL, 'llama3.1');
+      expect(cost).toBe(0);
+    });
+
     it('should handle zero values', () => {
-      const cost = calculateEstimatedCost(0, 0, 0, 0, AIProvider.GEMINI, 'flash');
+      const cost = calculateEstimatedCost(0, 0, 0, 0, AIProvider.GEMINI, 'gemini-2.0-flash-exp');
       expect(cost).toBe(0);
     });
 
     it('should default to Gemini Flash for unknown provider', () => {
-      const cost = calculateEstimatedCost(1000, 500, 1, 0, 'UNKNOWN' as AIProvider, 'flash');
+      const cost = calculateEstimatedCost(1000, 500, 1, 0, 'UNKNOWN' as AIProvider);
       
       // Should default to Gemini Flash pricing
       const expectedCost = (1000 * 0.1/1000000) + (500 * 0.4/1000000) + (1 * 0.0008);
@@ -85,6 +107,7 @@ describe('AI Provider Types', () => {
     expect(AIProvider.GEMINI).toBe('gemini');
     expect(AIProvider.OPENAI).toBe('openai');
     expect(AIProvider.CLAUDE).toBe('claude');
+    expect(AIProvider.LOCAL).toBe('local');
   });
 });
 
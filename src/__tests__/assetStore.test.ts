@@ -0,0 +1,120 @@
+import { jest } from '@jest/globals';
+import {
+  storeImage,
+  loadImage,
+  evictAssets,
+  referencedAssets,
+  quarantinedAssets,
+  getAssetUsage,
+  setAssetBackend,
+  createMemoryBackend,
+  isAssetRef,
+  formatBytes,
+  AssetBackend
+} from '../../assetStore.ts';
+import { SaveSlot } from '../../types.ts';
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+const OTHER = 'data:image/png;base64,AAECAwQFBgcICQ==';
+
+const slotWith = (...refs: string[]): SaveSlot => ({
+  id: 'slot',
+  schemaVersion: 2,
+  name: 'Test',
+  genre: 'Fantasy',
+  lastUpdated: 0,
+  gameState: null as any,
+  history: refs.map(imageAsset => ({ text: 'Scene', choice: 'Go', imageAsset })),
+  chatMessages: [],
+  usageStats: { inputTokens: 0, outputTokens: 0, imageCount: 0, premiumImageCount: 0, estimatedCost: 0, rerollCount: 0, rerollCost: 0 },
+  diceSeed: 1
+});
+
+describe('Asset Store', () => {
+  let backend: AssetBackend;
+  const mockFetch = jest.fn() as any;
+
+  beforeEach(() => {
+    backend = createMemoryBackend();
+    setAssetBackend(backend);
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+  });
+
+  afterAll(() => {
+    setAssetBackend(null);
+  });
+
+  it('should store data URLs under the SHA-256 of their bytes', async () => {
+    const ref = await storeImage(PIXEL);
+
+    expect(ref).toMatch(/^asset:[0-9a-f]{64}$/);
+    expect(isAssetRef(ref)).toBe(true);
+    const [meta] = await backend.list();
+    expect(meta.mimeType).toBe('image/png');
+    expect(meta.size).toBe(70);
+  });
+
+  it('should store the same image only once', async () => {
+    const first = await storeImage(PIXEL);
+    const second = await storeImage(PIXEL);
+
+    expect(second).toBe(first);
+    expect(await backend.list()).toHaveLength(1);
+  });
+
+  it('should download provider URLs before they expire', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: { get: () => 'image/webp' },
+      arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer
+    });
+
+    const ref = await storeImage('https://images.example.com/scene.webp');
+
+    expect(mockFetch).toHaveBeenCalledWith('https://images.example.com/scene.webp');
+    expect(await loadImage(ref)).toBeDefined();
+    expect((await backend.list())[0]).toMatchObject({ mimeType: 'image/webp', size: 3 });
+  });
+
+  it('should fail when a provider URL cannot be downloaded', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 403 });
+    await expect(storeImage('https://images.example.com/expired.png')).rejects.toThrow('403');
+  });
+
+  it('should collect references from every save', () => {
+    const refs = referencedAssets([slotWith('asset:aaa', 'asset:bbb')], [{ text: 'x', choice: 'y', imageAsset: 'asset:ccc' }]);
+    expect(Array.from(refs).sort()).toEqual(['aaa', 'bbb', 'ccc']);
+  });
+
+  it('should evict unreferenced images, then the least recently used', async () => {
+    const kept = await storeImage(PIXEL);
+    const orphan = await storeImage(OTHER);
+    const keptHash = kept.slice('asset:'.length);
+
+    expect(await evictAssets(referencedAssets([slotWith(kept)]))).toEqual([orphan.slice('asset:'.length)]);
+    expect(await loadImage(kept)).toBeDefined();
+
+    expect(await evictAssets(new Set([keptHash]), 10)).toEqual([keptHash]);
+    expect(await backend.list()).toEqual([]);
+  });
+
+  it('should keep images that only a quarantined save refers to', async () => {
+    const kept = await storeImage(PIXEL);
+    const raw = `{"id":"broken","history":[{"imageAsset":"${kept}"`;
+
+    expect(await evictAssets(quarantinedAssets([{ raw }]))).toEqual([]);
+    expect(await loadImage(kept)).toBeDefined();
+  });
+
+  it('should report how much the archive holds', async () => {
+    await storeImage(PIXEL);
+    await storeImage(OTHER);
+
+    const usage = await getAssetUsage();
+
+    expect(usage).toMatchObject({ assetCount: 2, assetBytes: 80 });
+    expect(formatBytes(usage.assetBytes)).toBe('80 B');
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+});
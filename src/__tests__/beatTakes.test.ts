@@ -0,0 +1,92 @@
+import { addTake, selectTake, attachImage, takeCount } from '../../beatTakes.ts';
+import { referencedAssets } from '../../assetStore.ts';
+import { GameHistoryItem, GameState, MemoryNotes, SaveSlot } from '../../types.ts';
+import { EMPTY_USAGE, SAVE_SCHEMA_VERSION, upgradeSave } from '../../saveSchema.ts';
+
+const stateFor = (storyText: string): GameState => ({
+  storyText,
+  choices: ['Open the chest'],
+  inventory: [],
+  currentQuest: 'Loot the wreck',
+  visualPrompt: 'Sunken ship',
+  worldStyle: 'Watercolor',
+  genre: 'Pirate'
+});
+
+const original: GameHistoryItem = {
+  text: 'The hull groans.',
+  choice: 'Dive',
+  state: stateFor('The hull groans.'),
+  imageAsset: 'asset:first',
+  promptVersions: ['advanceStory@v2']
+};
+
+const notes: MemoryNotes = { summary: 'Found a chest', npcs: [], places: ['Wreck'], promises: [], resolved: [] };
+
+describe('Beat Takes', () => {
+  it('should keep the original as the first take when a beat is rerolled', () => {
+    const reroll = stateFor('A shark circles the mast.');
+    const item = addTake(original, { text: reroll.storyText, state: reroll, promptVersions: ['advanceStory@v2'], notes }, undefined);
+
+    expect(takeCount(item)).toBe(2);
+    expect(item.activeTake).toBe(1);
+    expect(item.text).toBe('A shark circles the mast.');
+    expect(item.state).toBe(reroll);
+    expect(item.imageAsset).toBeUndefined();
+    expect(item.choice).toBe('Dive');
+    expect(item.takes![0]).toMatchObject({ text: 'The hull groans.', imageAsset: 'asset:first' });
+    expect(item.takes![1].notes).toBe(notes);
+  });
+
+  it('should flip back to an earlier take', () => {
+    const reroll = stateFor('A shark circles the mast.');
+    const item = selectTake(addTake(original, { text: reroll.storyText, state: reroll }), 0);
+
+    expect(item.activeTake).toBe(0);
+    expect(item.text).toBe('The hull groans.');
+    expect(item.state).toBe(original.state);
+    expect(item.imageAsset).toBe('asset:first');
+    expect(item.takes).toHaveLength(2);
+  });
+
+  it('should attach late images to the right take', () => {
+    const reroll = stateFor('A shark circles the mast.');
+    let item = addTake(original, { text: reroll.storyText, state: reroll });
+    item = attachImage(item, reroll, { imageUrl: 'data:image/png;base64,AAAA' });
+    item = attachImage(item, reroll, { imageAsset: 'asset:second' });
+
+    expect(item.imageUrl).toBe('data:image/png;base64,AAAA');
+    expect(item.imageAsset).toBe('asset:second');
+    expect(item.takes![1].imageAsset).toBe('asset:second');
+
+    const flipped = attachImage(selectTake(item, 0), reroll, { imageAsset: 'asset:third' });
+    expect(flipped.imageAsset).toBe('asset:first');
+    expect(flipped.takes![1].imageAsset).toBe('asset:third');
+  });
+
+  it('should protect images of takes that are not shown from eviction', () => {
+    const reroll = stateFor('A shark circles the mast.');
+    const item = addTake(original, { text: reroll.storyText, state: reroll, imageAsset: 'asset:second' });
+    const slot = { history: [item] } as SaveSlot;
+
+    expect(referencedAssets([slot])).toEqual(new Set(['first', 'second']));
+  });
+
+  it('should add reroll counters when upgrading older saves', () => {
+    const { slot } = upgradeSave({
+      id: 'wreck',
+      schemaVersion: 2,
+      name: 'Pirate - Wreck',
+      genre: 'Pirate',
+      lastUpdated: 0,
+      gameState: original.state,
+      history: [original],
+      chatMessages: [],
+      usageStats: { inputTokens: 10, outputTokens: 20, imageCount: 1, premiumImageCount: 0, estimatedCost: 0.1 },
+      memory: { recaps: [], npcs: [], places: [], promises: [] }
+    });
+
+    expect(slot?.schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+    expect(slot?.usageStats).toEqual({ ...EMPTY_USAGE, inputTokens: 10, outputTokens: 20, imageCount: 1, estimatedCost: 0.1 });
+  });
+});
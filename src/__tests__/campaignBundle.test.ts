@@ -0,0 +1,144 @@
+import {
+  createBundle,
+  serializeBundle,
+  parseBundle,
+  importBundle,
+  bundleFileName,
+  BUNDLE_FORMAT
+} from '../../campaignBundle.ts';
+import { storeImage, loadImage, setAssetBackend, createMemoryBackend, isAssetRef } from '../../assetStore.ts';
+import { setStoredApiKey } from '../../aiService.ts';
+import { AIProvider, GameState, SaveSlot } from '../../types.ts';
+import { SAVE_SCHEMA_VERSION } from '../../saveSchema.ts';
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+const OTHER = 'data:image/png;base64,AAECAwQFBgcICQ==';
+
+const gameState: GameState = {
+  storyText: 'The lighthouse keeper waits.',
+  choices: ['Climb the stairs'],
+  inventory: [{ id: 'lantern', name: 'Lantern', quantity: 1, description: '', tags: [], acquiredAt: 0 }],
+  currentQuest: 'Relight the lamp',
+  visualPrompt: 'Stormy coast',
+  worldStyle: 'Gothic',
+  genre: 'Horror'
+};
+
+const makeSlot = async (): Promise<SaveSlot> => ({
+  id: 'lighthouse',
+  schemaVersion: SAVE_SCHEMA_VERSION,
+  name: 'Horror - Lighthouse',
+  genre: 'Horror',
+  lastUpdated: 1700000000000,
+  gameState,
+  history: [
+    { text: 'The lighthouse keeper waits.', choice: 'The Beginning', state: gameState, imageAsset: await storeImage(PIXEL), imageUrl: 'blob:session-only' },
+    { text: 'The stairs creak.', choice: 'Climb the stairs', imageUrl: 'https://images.example/expiring.png' }
+  ],
+  chatMessages: [{ role: 'user', text: 'Who built this place?' }, { role: 'model', text: 'A drowned admiral.' }],
+  usageStats: { inputTokens: 500, outputTokens: 900, imageCount: 1, premiumImageCount: 0, estimatedCost: 0.05, rerollCount: 0, rerollCost: 0 },
+  memory: { recaps: ['Arrived at the lighthouse'], npcs: ['Keeper'], places: ['Lighthouse'], promises: [] },
+  diceSeed: 1
+});
+
+describe('Campaign Bundles', () => {
+  beforeEach(() => {
+    setAssetBackend(createMemoryBackend());
+    localStorage.clear();
+  });
+
+  it('should embed archived images and drop session-only URLs', async () => {
+    const slot = await makeSlot();
+    const bundle = await createBundle(slot);
+
+    expect(bundle.format).toBe(BUNDLE_FORMAT);
+    expect(Object.keys(bundle.images)).toEqual([slot.history[0].imageAsset]);
+    expect(bundle.images[slot.history[0].imageAsset!]).toMatch(/^data:image\/png;base64,/);
+    expect(bundle.slot.history[0].imageUrl).toBeUndefined();
+    expect(bundle.slot.history[1].imageUrl).toBeUndefined();
+    expect(bundle.slot.chatMessages).toHaveLength(2);
+    expect(bundle.slot.usageStats.estimatedCost).toBe(0.05);
+  });
+
+  it('should restore the campaign and its images in another browser', async () => {
+    const json = serializeBundle(await createBundle(await makeSlot()));
+    setAssetBackend(createMemoryBackend());
+
+    const imported = await importBundle(json, new Set());
+
+    expect(imported.id).toBe('lighthouse');
+    expect(imported.name).toBe('Horror - Lighthouse');
+    expect(imported.history).toHaveLength(2);
+    expect(imported.memory?.npcs).toEqual(['Keeper']);
+    expect(isAssetRef(imported.history[0].imageAsset)).toBe(true);
+    expect(await loadImage(imported.history[0].imageAsset!)).toBeDefined();
+  });
+
+  it('should give an imported campaign a new id when the old one is taken', async () => {
+    const json = serializeBundle(await createBundle(await makeSlot()));
+
+    const imported = await importBundle(json, new Set(['lighthouse']));
+
+    expect(imported.id).not.toBe('lighthouse');
+    expect(imported.name).toBe('Horror - Lighthouse (imported)');
+  });
+
+  it('should drop image references the file does not carry', async () => {
+    const bundle = await createBundle(await makeSlot());
+    const json = JSON.stringify({ ...bundle, images: {} });
+
+    const imported = await importBundle(json, new Set());
+
+    expect(imported.history[0].imageAsset).toBeUndefined();
+  });
+
+  it('should carry the images of rerolled takes', async () => {
+    const slot = await makeSlot();
+    const takeImage = await storeImage(OTHER);
+    const takes = [
+      { text: slot.history[0].text, state: gameState, imageAsset: slot.history[0].imageAsset },
+      { text: 'The keeper is gone.', state: gameState, imageAsset: takeImage }
+    ];
+    const bundle = await createBundle({ ...slot, history: [{ ...slot.history[0], takes, activeTake: 0 }, slot.history[1]] });
+
+    setAssetBackend(createMemoryBackend());
+    const imported = await importBundle(serializeBundle(bundle), new Set());
+    const importedTakes = imported.history[0].takes!;
+    expect(await loadImage(importedTakes[1].imageAsset!)).toBeDefined();
+
+    const { [takeImage]: _, ...withoutTake } = bundle.images;
+    const partial = await importBundle(JSON.stringify({ ...bundle, images: withoutTake }), new Set());
+    expect(partial.history[0].takes![0].imageAsset).toBe(partial.history[0].imageAsset);
+    expect(partial.history[0].takes![1].imageAsset).toBeUndefined();
+  });
+
+  it('should reject files that are not campaign bundles', () => {
+    expect(() => parseBundle('not json')).toThrow('not valid JSON');
+    expect(() => parseBundle(JSON.stringify({ format: 'chronicle-cassette' }))).toThrow('Not a Chronicle Weaver campaign file');
+    expect(() => parseBundle(JSON.stringify({ format: BUNDLE_FORMAT, version: 99 }))).toThrow('Unsupported campaign file version');
+    expect(() => parseBundle(JSON.stringify({ format: BUNDLE_FORMAT, version: 1, slot: { id: 'x', history: 'nope' } }))).toThrow('damaged');
+  });
+
+  it('should ignore bundled images that are not image data URLs', async () => {
+    const bundle = await createBundle(await makeSlot());
+    const ref = Object.keys(bundle.images)[0];
+    const parsed = parseBundle(JSON.stringify({ ...bundle, images: { [ref]: 'javascript:alert(1)' } }));
+
+    expect(parsed.images).toEqual({});
+  });
+
+  it('should never include stored API keys', async () => {
+    setStoredApiKey(AIProvider.OPENAI, 'sk-test-secret-key-123');
+    const slot = await makeSlot();
+    slot.chatMessages.push({ role: 'user', text: 'my key is sk-test-secret-key-123, is that right?' });
+
+    const json = serializeBundle(await createBundle(slot));
+
+    expect(json).not.toContain('sk-test-secret-key-123');
+    expect(json).toContain('[redacted]');
+  });
+
+  it('should name the file after the campaign', async () => {
+    expect(bundleFileName(await makeSlot())).toBe('chronicle-horror-lighthouse.json');
+  });
+});
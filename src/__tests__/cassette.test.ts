@@ -0,0 +1,98 @@
+import { jest } from '@jest/globals';
+import { generateStoryBeat, generateImage, setStoredApiKey } from '../../aiService.ts';
+import {
+  startRecording,
+  stopRecording,
+  loadCassette,
+  ejectCassette,
+  parseCassette,
+  cassetteKey,
+  getCassetteMode,
+  CassetteMissError
+} from '../../cassette.ts';
+import { AIProvider, GameState } from '../../types.ts';
+
+const mockFetch = jest.fn() as any;
+
+const mockState: GameState = {
+  storyText: 'Rain hammers the neon alley.',
+  choices: ['Hide', 'Run'],
+  inventory: [{ id: 'datachip', name: 'Datachip', quantity: 1, description: '', tags: [], acquiredAt: 0 }],
+  currentQuest: 'Deliver the chip',
+  visualPrompt: 'Neon alley in the rain',
+  worldStyle: 'Cyberpunk',
+  genre: 'Cyberpunk'
+};
+
+const storyResponse = (state: GameState) => ({
+  ok: true,
+  json: async () => ({
+    choices: [{ message: { content: JSON.stringify(state) } }],
+    usage: { prompt_tokens: 10, completion_tokens: 20 }
+  })
+});
+
+describe('Cassette Record/Replay', () => {
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    setStoredApiKey(AIProvider.OPENAI, 'test-openai-key');
+    ejectCassette();
+  });
+
+  it('should record story and image requests and replay them without the network', async () => {
+    mockFetch
+      .mockResolvedValueOnce(storyResponse(mockState))
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: [{ b64_json: 'YWxsZXk=' }] }) });
+
+    startRecording('test');
+    await generateStoryBeat('Start a cyberpunk story', AIProvider.OPENAI);
+    await generateImage('Neon alley', 'Cyberpunk', AIProvider.OPENAI, 'standard');
+    const cassette = stopRecording();
+
+    expect(cassette?.entries).toHaveLength(2);
+    expect(getCassetteMode()).toBe('off');
+
+    mockFetch.mockReset();
+    loadCassette(parseCassette(JSON.stringify(cassette)));
+
+    const story = await generateStoryBeat('Start a cyberpunk story', AIProvider.OPENAI);
+    const image = await generateImage('Neon alley', 'Cyberpunk', AIProvider.OPENAI, 'standard');
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(story.data.storyText).toBe(mockState.storyText);
+    expect(story.usage).toEqual({ inputTokens: 10, outputTokens: 20, provider: AIProvider.OPENAI, model: 'gpt-4o-mini' });
+    expect(image.data).toBe('data:image/png;base64,YWxsZXk=');
+  });
+
+  it('should match prompts regardless of whitespace differences', () => {
+    expect(cassetteKey('story', '  Start a\n\tcyberpunk   story ')).toBe(cassetteKey('story', 'Start a cyberpunk story'));
+    expect(cassetteKey('story', 'Start')).not.toBe(cassetteKey('chat', 'Start'));
+  });
+
+  it('should replay repeated prompts in recorded order', async () => {
+    const second = { ...mockState, storyText: 'The rain stops.' };
+    mockFetch
+      .mockResolvedValueOnce(storyResponse(mockState))
+      .mockResolvedValueOnce(storyResponse(second));
+
+    startRecording();
+    await generateStoryBeat('Continue', AIProvider.OPENAI);
+    await generateStoryBeat('Continue', AIProvider.OPENAI);
+    loadCassette(stopRecording()!);
+
+    expect((await generateStoryBeat('Continue', AIProvider.OPENAI)).data.storyText).toBe(mockState.storyText);
+    expect((await generateStoryBeat('Continue', AIProvider.OPENAI)).data.storyText).toBe('The rain stops.');
+  });
+
+  it('should fail loudly when a request was never recorded', async () => {
+    loadCassette({ version: 1, name: 'empty', createdAt: 0, entries: [] });
+
+    await expect(generateStoryBeat('Something new', AIProvider.OPENAI)).rejects.toBeInstanceOf(CassetteMissError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should reject files that are not cassettes', () => {
+    expect(() => parseCassette('{"hello":"world"}')).toThrow('Not a Chronicle Weaver cassette file');
+  });
+});
@@ -0,0 +1,104 @@
+import { parseCharacterSheet, parseSkillChecks, settleCharacter, checkFor, resolveCheck, modifierFor, formatCheck } from '../../characterSheet.ts';
+import { rollDie, seedFromText, seededRandom } from '../../dice.ts';
+import { validateGameState } from '../../gameStateValidator.ts';
+import { upgradeSave, SAVE_SCHEMA_VERSION } from '../../saveSchema.ts';
+import { CharacterSheet, GameState } from '../../types.ts';
+
+const hero: CharacterSheet = { name: 'Mara', hp: 8, maxHp: 12, attributes: { might: 10, agility: 15, wits: 12, presence: 7 } };
+
+const state: GameState = {
+  storyText: 'The rope bridge sways over the gorge.',
+  choices: ['Run across', 'Climb down the cliff', 'Turn back'],
+  inventory: [],
+  currentQuest: 'Reach the monastery',
+  visualPrompt: 'Rope bridge over a gorge',
+  worldStyle: 'Ink wash',
+  genre: 'Wuxia',
+  character: hero,
+  skillChecks: [
+    { choice: 'Run across', attribute: 'agility', difficulty: 12 },
+    { choice: 'Climb down the cliff', attribute: 'might', difficulty: 16 }
+  ]
+};
+
+// First beat index in 0..999 whose roll matches
+const beatRolling = (seed: number, wanted: (roll: number) => boolean) => {
+  for (let beat = 0; beat < 1000; beat++) if (wanted(rollDie(seed, beat))) return beat;
+  throw new Error('No such roll');
+};
+
+describe('Dice', () => {
+  it('should roll the same for the same save and beat', () => {
+    expect(rollDie(42, 3)).toBe(rollDie(42, 3));
+    expect([...Array(20).keys()].map(beat => rollDie(42, beat))).not.toEqual([...Array(20).keys()].map(beat => rollDie(43, beat)));
+    expect(seededRandom(7)()).toBe(seededRandom(7)());
+    expect(seedFromText('save-1')).toBe(seedFromText('save-1'));
+  });
+
+  it('should land every face of a d20 and nothing else', () => {
+    const faces = new Set([...Array(2000).keys()].map(beat => rollDie(99, beat)));
+    expect([...faces].sort((a, b) => a - b)).toEqual([...Array(20).keys()].map(face => face + 1));
+  });
+});
+
+describe('Character Sheet', () => {
+  it('should read sheets and checks leniently', () => {
+    expect(parseCharacterSheet({ name: ' Mara ', hp: 40, maxHp: '12', attributes: { might: 25, agility: 15 } }))
+      .toEqual({ name: 'Mara', hp: 12, maxHp: 12, attributes: { might: 18, agility: 15, wits: 10, presence: 10 } });
+    expect(parseCharacterSheet('strong')).toBeUndefined();
+    expect(parseSkillChecks([
+      { choice: 'Run across', attribute: 'Agility', difficulty: 40 },
+      { choice: 'Sing', attribute: 'charisma', difficulty: 10 },
+      { attribute: 'wits' }
+    ])).toEqual([{ choice: 'Run across', attribute: 'agility', difficulty: 25 }]);
+  });
+
+  it('should keep the sheet through validation', () => {
+    const { state: validated } = validateGameState(state);
+    expect(validated?.character).toEqual(hero);
+    expect(validated?.skillChecks).toEqual(state.skillChecks);
+  });
+
+  it('should let the story move hp but nothing else', () => {
+    const reply = { ...state, character: { name: 'Mara the Great', hp: 30, maxHp: 30, attributes: { might: 18, agility: 18, wits: 18, presence: 18 } } };
+    expect(settleCharacter(reply, hero).character).toEqual({ ...hero, hp: 12 });
+    expect(settleCharacter({ ...state, character: { ...hero, hp: -3 } }, hero).character?.hp).toBe(0);
+    expect(settleCharacter({ ...state, character: undefined }, hero).character).toBe(hero);
+    expect(settleCharacter(state, undefined)).toBe(state);
+  });
+
+  it('should only find checks for tagged choices in games with a sheet', () => {
+    expect(checkFor(state, ' run across ')).toEqual(state.skillChecks![0]);
+    expect(checkFor(state, 'Turn back')).toBeUndefined();
+    expect(checkFor({ ...state, character: undefined }, 'Run across')).toBeUndefined();
+  });
+
+  it('should settle checks with the attribute modifier and natural rolls', () => {
+    const seed = 1234;
+    const check = { choice: 'Climb down the cliff', attribute: 'might' as const, difficulty: 16 };
+    expect(modifierFor(15)).toBe(2);
+    expect(modifierFor(7)).toBe(-2);
+
+    const beat = beatRolling(seed, roll => roll > 1 && roll < 20);
+    const result = resolveCheck(check, hero, seed, beat);
+    expect(result).toEqual(resolveCheck(check, hero, seed, beat));
+    expect(result.total).toBe(result.roll);
+    expect(result.outcome).toBe(result.total >= 16 ? 'success' : 'failure');
+
+    expect(resolveCheck({ ...check, difficulty: 25 }, hero, seed, beatRolling(seed, roll => roll === 20)).outcome).toBe('critical success');
+    expect(resolveCheck({ ...check, difficulty: 5 }, hero, seed, beatRolling(seed, roll => roll === 1)).outcome).toBe('critical failure');
+  });
+
+  it('should describe a roll for the prompt and the archives', () => {
+    expect(formatCheck({ attribute: 'agility', difficulty: 14, roll: 7, modifier: 2, total: 9, outcome: 'failure' })).toBe('Agility 7 +2 = 9 vs 14: failure');
+    expect(formatCheck({ attribute: 'presence', difficulty: 10, roll: 15, modifier: -2, total: 13, outcome: 'success' })).toBe('Presence 15 −2 = 13 vs 10: success');
+  });
+
+  it('should give older saves a stable dice seed', () => {
+    const old = { id: 'gorge', schemaVersion: 4, name: 'Wuxia', genre: 'Wuxia', lastUpdated: 0, gameState: state, history: [], chatMessages: [], usageStats: {} };
+    const first = upgradeSave(old).slot!;
+    expect(first.schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+    expect(first.diceSeed).toBe(seedFromText('gorge'));
+    expect(upgradeSave({ ...old, diceSeed: 5 }).slot!.diceSeed).toBe(5);
+  });
+});
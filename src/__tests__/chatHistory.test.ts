@@ -0,0 +1,122 @@
+import { jest } from '@jest/globals';
+import { normalizeChatHistory, trimChatHistory, formatRecentBeats, RECENT_BEAT_COUNT } from '../../chatHistory.ts';
+import { getChatResponse, setStoredApiKey, setFailoverChain } from '../../aiService.ts';
+import { AIProvider, ChatMessage, GameHistoryItem, GameState } from '../../types.ts';
+
+const mockState: GameState = {
+  storyText: 'The library doors seal behind you.',
+  choices: ['Search the stacks', 'Call out'],
+  inventory: [{ id: 'candle', name: 'Candle', quantity: 1, description: '', tags: [], acquiredAt: 0 }],
+  currentQuest: 'Find the lost codex',
+  visualPrompt: 'Vast candlelit library',
+  worldStyle: 'Gothic',
+  genre: 'Mystery'
+};
+
+const conversation: ChatMessage[] = [
+  { role: 'user', text: 'Who built this library?' },
+  { role: 'model', text: 'The Archivist Order, long ago.' },
+  { role: 'user', text: 'Are they still here?' },
+  { role: 'model', text: 'Only their ghosts.' }
+];
+
+const beat = (text: string, choice: string): GameHistoryItem => ({ text, choice, state: mockState });
+
+describe('normalizeChatHistory', () => {
+  it('should join consecutive turns and drop a leading reply', () => {
+    const turns = normalizeChatHistory([
+      { role: 'model', text: 'Welcome.' },
+      { role: 'user', text: 'Hello?' },
+      { role: 'user', text: 'Anyone?' },
+      { role: 'model', text: '' },
+      { role: 'model', text: 'I am here.' }
+    ]);
+    expect(turns).toEqual([
+      { role: 'user', text: 'Hello?\n\nAnyone?' },
+      { role: 'model', text: 'I am here.' }
+    ]);
+  });
+});
+
+describe('trimChatHistory', () => {
+  it('should keep everything that fits', () => {
+    expect(trimChatHistory(conversation, 1000)).toEqual(conversation);
+  });
+
+  it('should drop the oldest turns first and still open with the user', () => {
+    const trimmed = trimChatHistory(conversation, 15);
+    expect(trimmed).toEqual(conversation.slice(2));
+  });
+
+  it('should send no history when nothing fits', () => {
+    expect(trimChatHistory(conversation, 0)).toEqual([]);
+  });
+});
+
+describe('formatRecentBeats', () => {
+  it('should list the latest beats in story order', () => {
+    const history = [beat('Fourth.', 'd'), beat('Third.', 'c'), beat('Second.', 'b'), beat('First.', 'The Beginning')];
+    const text = formatRecentBeats(history);
+
+    expect(text.split('\n')).toHaveLength(RECENT_BEAT_COUNT);
+    expect(text.indexOf('Second.')).toBeLessThan(text.indexOf('Fourth.'));
+    expect(text).not.toContain('First.');
+  });
+});
+
+describe('Multi-turn Chronicler requests', () => {
+  const mockFetch = jest.fn() as any;
+  const replies = {
+    [AIProvider.OPENAI]: { ok: true, json: async () => ({ choices: [{ message: { content: 'Indeed.' } }], usage: { prompt_tokens: 10, completion_tokens: 5 } }) },
+    [AIProvider.CLAUDE]: { ok: true, json: async () => ({ content: [{ text: 'Indeed.' }], usage: { input_tokens: 10, output_tokens: 5 } }) }
+  };
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    localStorage.clear();
+    setStoredApiKey(AIProvider.OPENAI, 'test-openai-key');
+    setStoredApiKey(AIProvider.CLAUDE, 'test-claude-key');
+  });
+
+  it('should send saved turns and recent beats to OpenAI', async () => {
+    mockFetch.mockResolvedValueOnce(replies[AIProvider.OPENAI]);
+
+    await getChatResponse('What were they guarding?', mockState, AIProvider.OPENAI, {
+      history: conversation,
+      recentBeats: [beat('The library doors seal behind you.', 'Enter the library')]
+    });
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.messages.map((m: any) => m.role)).toEqual(['system', 'user', 'assistant', 'user', 'assistant', 'user']);
+    expect(body.messages[2].content).toBe('The Archivist Order, long ago.');
+    expect(body.messages[5].content).toBe('What were they guarding?');
+    expect(body.messages[0].content).toContain('After "Enter the library": The library doors seal behind you.');
+  });
+
+  it('should send saved turns to Claude as alternating messages', async () => {
+    mockFetch.mockResolvedValueOnce(replies[AIProvider.CLAUDE]);
+
+    await getChatResponse('And now?', mockState, AIProvider.CLAUDE, { history: conversation });
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.messages).toHaveLength(5);
+    expect(body.messages[3]).toEqual({ role: 'assistant', content: 'Only their ghosts.' });
+  });
+
+  it('should trim long chats to the provider budget', async () => {
+    setFailoverChain([]);
+    mockFetch.mockResolvedValueOnce(replies[AIProvider.OPENAI]);
+    const longChat: ChatMessage[] = Array.from({ length: 400 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'model',
+      text: `Message ${i} ${'lorem ipsum '.repeat(10)}`
+    }));
+
+    await getChatResponse('Still there?', mockState, AIProvider.OPENAI, { history: longChat });
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.messages.length).toBeLessThan(longChat.length);
+    expect(body.messages[1].role).toBe('user');
+    expect(body.messages[body.messages.length - 2].content).toContain('Message 399');
+  });
+});
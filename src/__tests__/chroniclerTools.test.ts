@@ -0,0 +1,154 @@
+import { jest } from '@jest/globals';
+import { runChroniclerTool, parseToolArguments, ChroniclerToolContext, CHRONICLER_TOOLS, MAX_TOOL_ROUNDS } from '../../chroniclerTools.ts';
+import { getChatResponse, setStoredApiKey } from '../../aiService.ts';
+import { AIProvider, GameState } from '../../types.ts';
+
+const stateWith = (inventory: string[], storyText: string): GameState => ({
+  storyText,
+  choices: ['Go on'],
+  inventory: inventory.map(name => ({ id: name.toLowerCase(), name, quantity: 1, description: '', tags: [], acquiredAt: 0 })),
+  currentQuest: 'Reach the capital',
+  visualPrompt: 'Road',
+  worldStyle: 'Fantasy',
+  genre: 'Fantasy'
+});
+
+const opening = stateWith(['Sword', 'Map'], 'You set out from the village.');
+const market = stateWith(['Sword', 'Map', 'Amulet'], 'The merchant Vell says the amulet once belonged to a queen.');
+const bridge = stateWith(['Sword', 'Amulet'], 'The wind tears the map from your hands on the bridge.');
+
+const context: ChroniclerToolContext = {
+  gameState: bridge,
+  history: [
+    { text: bridge.storyText, choice: 'Cross the bridge', state: bridge },
+    { text: market.storyText, choice: 'Visit the market', state: market },
+    { text: opening.storyText, choice: 'The Beginning', state: opening }
+  ],
+  chatMessages: [
+    { role: 'user', text: 'Is Vell trustworthy?' },
+    { role: 'model', text: 'Merchants rarely are, but Vell has a good name.' }
+  ]
+};
+
+const run = (name: string, args: Record<string, unknown> = {}) => JSON.parse(runChroniclerTool(name, args, context));
+
+describe('Chronicler tool runtime', () => {
+  it('should find beats by keyword, numbered in story order', () => {
+    const { result } = run('search_story', { query: 'what did the merchant say' });
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ beat: 2, choice: 'Visit the market' });
+    expect(result[0].excerpt).toContain('belonged to a queen');
+  });
+
+  it('should read a single beat with the inventory at that moment', () => {
+    const { result } = run('get_beat', { beat: 1 });
+    expect(result).toEqual({ beat: 1, choice: 'The Beginning', text: opening.storyText, quest: 'Reach the capital', inventory: opening.inventory });
+  });
+
+  it('should report items gained and lost per beat', () => {
+    const { result } = run('get_inventory_changes');
+    expect(result).toEqual([
+      { beat: 1, choice: 'The Beginning', gained: ['Sword', 'Map'], lost: [], changed: [] },
+      { beat: 2, choice: 'Visit the market', gained: ['Amulet'], lost: [], changed: [] },
+      { beat: 3, choice: 'Cross the bridge', gained: [], lost: ['Map'], changed: [] }
+    ]);
+  });
+
+  it('should search the chat log and describe the current scene', () => {
+    expect(run('search_chat', { query: 'Vell' }).result).toHaveLength(2);
+    expect(run('get_game_state').result).toMatchObject({ beat: 3, inventory: bridge.inventory });
+  });
+
+  it('should report bad calls to the model instead of throwing', () => {
+    expect(run('delete_save')).toEqual({ error: 'Unknown tool: delete_save' });
+    expect(run('get_beat', { beat: 9 }).error).toContain('no beat 9');
+    expect(run('search_story', {}).error).toContain('"query"');
+  });
+
+  it('should accept arguments as JSON text or objects', () => {
+    expect(parseToolArguments('{"beat":2}')).toEqual({ beat: 2 });
+    expect(parseToolArguments({ beat: 2 })).toEqual({ beat: 2 });
+    expect(parseToolArguments('not json')).toEqual({});
+  });
+});
+
+describe('Chronicler tool calling', () => {
+  const mockFetch = jest.fn() as any;
+  const reply = (body: unknown) => ({ ok: true, json: async () => body });
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    localStorage.clear();
+    setStoredApiKey(AIProvider.OPENAI, 'test-openai-key');
+    setStoredApiKey(AIProvider.CLAUDE, 'test-claude-key');
+  });
+
+  it('should run OpenAI tool calls and send the results back', async () => {
+    mockFetch
+      .mockResolvedValueOnce(reply({
+        choices: [{ message: { content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_inventory_changes', arguments: '{}' } }] } }],
+        usage: { prompt_tokens: 50, completion_tokens: 10 }
+      }))
+      .mockResolvedValueOnce(reply({
+        choices: [{ message: { content: 'You lost the map on the bridge.' } }],
+        usage: { prompt_tokens: 80, completion_tokens: 12 }
+      }));
+
+    const result = await getChatResponse('Which items did I lose?', bridge, AIProvider.OPENAI, { toolContext: context });
+
+    const first = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(first.tools.map((tool: any) => tool.function.name)).toEqual(CHRONICLER_TOOLS.map(tool => tool.name));
+    const second = JSON.parse(mockFetch.mock.calls[1][1].body);
+    const toolMessage = second.messages[second.messages.length - 1];
+    expect(toolMessage.role).toBe('tool');
+    expect(toolMessage.tool_call_id).toBe('call_1');
+    expect(JSON.parse(toolMessage.content).result[2].lost).toEqual(['Map']);
+    expect(result.data).toBe('You lost the map on the bridge.');
+    expect(result.usage).toMatchObject({ inputTokens: 130, outputTokens: 22 });
+  });
+
+  it('should run Anthropic tool use and return the final text', async () => {
+    mockFetch
+      .mockResolvedValueOnce(reply({
+        content: [{ type: 'text', text: 'Let me check.' }, { type: 'tool_use', id: 'toolu_1', name: 'get_beat', input: { beat: 2 } }],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 40, output_tokens: 8 }
+      }))
+      .mockResolvedValueOnce(reply({
+        content: [{ type: 'text', text: 'Vell said it belonged to a queen.' }],
+        usage: { input_tokens: 60, output_tokens: 9 }
+      }));
+
+    const result = await getChatResponse('What did the merchant say in chapter 2?', bridge, AIProvider.CLAUDE, { toolContext: context });
+
+    const second = JSON.parse(mockFetch.mock.calls[1][1].body);
+    const [, assistant, toolResults] = second.messages;
+    expect(assistant.content[1].type).toBe('tool_use');
+    expect(toolResults.content[0]).toMatchObject({ type: 'tool_result', tool_use_id: 'toolu_1' });
+    expect(JSON.parse(toolResults.content[0].content).result.text).toContain('merchant Vell');
+    expect(result.data).toBe('Vell said it belonged to a queen.');
+  });
+
+  it('should stop offering tools after the round limit', async () => {
+    const toolCall = reply({
+      choices: [{ message: { content: null, tool_calls: [{ id: 'call', type: 'function', function: { name: 'get_game_state', arguments: '' } }] } }]
+    });
+    for (let i = 0; i < MAX_TOOL_ROUNDS; i++) mockFetch.mockResolvedValueOnce(toolCall);
+    mockFetch.mockResolvedValueOnce(reply({ choices: [{ message: { content: 'Enough digging.' } }] }));
+
+    const result = await getChatResponse('Tell me everything', bridge, AIProvider.OPENAI, { toolContext: context });
+
+    expect(mockFetch).toHaveBeenCalledTimes(MAX_TOOL_ROUNDS + 1);
+    expect(JSON.parse(mockFetch.mock.calls[MAX_TOOL_ROUNDS][1].body).tools).toBeUndefined();
+    expect(result.data).toBe('Enough digging.');
+  });
+
+  it('should not offer tools without a save to read', async () => {
+    mockFetch.mockResolvedValueOnce(reply({ choices: [{ message: { content: 'Hello.' } }] }));
+
+    await getChatResponse('Hi', bridge, AIProvider.OPENAI);
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).tools).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { jest } from '@jest/globals';
+import {
+  generateStoryBeat,
+  getChatResponse,
+  getFailoverChain,
+  setFailoverChain,
+  setStoredApiKey,
+  setLocalModelSettings
+} from '../../aiService.ts';
+import { AuthError } from '../../aiErrors.ts';
+import { AIProvider, GameState } from '../../types.ts';
+
+const mockFetch = jest.fn() as any;
+
+const mockState: GameState = {
+  storyText: 'Fog rolls over the moor.',
+  choices: ['Follow the light'],
+  inventory: [],
+  currentQuest: 'Find shelter',
+  visualPrompt: 'Foggy moor at dusk',
+  worldStyle: 'Gothic',
+  genre: 'Gothic Horror'
+};
+
+const failure = (status: number) => ({ ok: false, status, statusText: 'Error', text: async () => 'bad request', headers: { get: () => null } });
+
+const completion = (content: string) => ({
+  ok: true,
+  json: async () => ({ choices: [{ message: { content } }], usage: { prompt_tokens: 5, completion_tokens: 7 } })
+});
+
+describe('Provider Failover', () => {
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    localStorage.clear();
+    setStoredApiKey(AIProvider.OPENAI, 'test-openai-key');
+    setLocalModelSettings({ baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' });
+  });
+
+  it('should persist the chain without duplicates', () => {
+    setFailoverChain([AIProvider.GEMINI, AIProvider.LOCAL, AIProvider.GEMINI]);
+    expect(getFailoverChain()).toEqual([AIProvider.GEMINI, AIProvider.LOCAL]);
+  });
+
+  it('should move to the next configured provider and record who answered', async () => {
+    // Gemini has no key, so it is skipped
+    setFailoverChain([AIProvider.GEMINI, AIProvider.LOCAL]);
+    mockFetch
+      .mockResolvedValueOnce(failure(400))
+      .mockResolvedValueOnce(completion(JSON.stringify(mockState)));
+
+    const result = await generateStoryBeat('Begin', AIProvider.OPENAI);
+
+    expect(mockFetch.mock.calls[1][0]).toBe('http://localhost:11434/v1/chat/completions');
+    expect(result.data.storyText).toBe(mockState.storyText);
+    expect(result.usage.provider).toBe(AIProvider.LOCAL);
+  });
+
+  it('should fail over chat requests too', async () => {
+    setFailoverChain([AIProvider.LOCAL]);
+    mockFetch
+      .mockResolvedValueOnce(failure(400))
+      .mockResolvedValueOnce(completion('Greetings, traveler.'));
+
+    const result = await getChatResponse('Hello?', mockState, AIProvider.OPENAI);
+
+    expect(result.data).toBe('Greetings, traveler.');
+    expect(result.usage.provider).toBe(AIProvider.LOCAL);
+  });
+
+  it('should not fail over when the selected provider rejects its key', async () => {
+    setFailoverChain([AIProvider.LOCAL]);
+    mockFetch.mockResolvedValueOnce(failure(401));
+
+    await expect(generateStoryBeat('Begin', AIProvider.OPENAI)).rejects.toBeInstanceOf(AuthError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should surface the selected provider error when every provider fails', async () => {
+    setFailoverChain([AIProvider.LOCAL]);
+    mockFetch.mockResolvedValueOnce(failure(400)).mockResolvedValueOnce(failure(404));
+
+    await expect(generateStoryBeat('Begin', AIProvider.OPENAI)).rejects.toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,121 @@
+import { jest } from '@jest/globals';
+import { extractJson, validateGameState, applyDefaults, buildRepairPrompt, GAME_STATE_DEFAULTS } from '../../gameStateValidator.ts';
+import { generateStoryBeat, setStoredApiKey } from '../../aiService.ts';
+import { MalformedResponseError } from '../../aiErrors.ts';
+import { AIProvider, GameState } from '../../types.ts';
+
+const mockState: GameState = {
+  storyText: 'The lantern gutters.',
+  choices: ['Relight it', 'Walk on in the dark'],
+  inventory: [{ id: 'flint', name: 'Flint', quantity: 1, description: '', tags: [], acquiredAt: 0 }],
+  currentQuest: 'Cross the mine',
+  visualPrompt: 'Abandoned mine tunnel',
+  worldStyle: 'Dark fantasy',
+  genre: 'Fantasy'
+};
+
+describe('extractJson', () => {
+  it('should read bare JSON', () => {
+    expect(extractJson(JSON.stringify(mockState))).toEqual(mockState);
+  });
+
+  it('should read JSON inside a code fence', () => {
+    expect(extractJson('Here you go:\n```json\n{"storyText":"Hi"}\n```')).toEqual({ storyText: 'Hi' });
+  });
+
+  it('should read JSON wrapped in prose, ignoring braces inside strings', () => {
+    expect(extractJson('Sure! {"storyText":"A {curly} tale"} Hope that helps.')).toEqual({ storyText: 'A {curly} tale' });
+  });
+
+  it('should return undefined when there is no object', () => {
+    expect(extractJson('no json here')).toBeUndefined();
+    expect(extractJson('["a"]')).toBeUndefined();
+  });
+});
+
+describe('validateGameState', () => {
+  it('should accept a complete state', () => {
+    const result = validateGameState(mockState);
+    expect(result.state).toEqual(mockState);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should report exactly which fields are wrong', () => {
+    const result = validateGameState({ ...mockState, choices: [], inventory: 'Flint', genre: undefined });
+    expect(result.state).toBeUndefined();
+    expect(result.issues).toEqual([
+      { field: 'genre', message: 'is missing' },
+      { field: 'choices', message: 'must offer at least one choice' },
+      { field: 'inventory', message: 'must be an array of items' }
+    ]);
+    expect(result.partial.storyText).toBe(mockState.storyText);
+  });
+
+  it('should keep valid fields when applying defaults', () => {
+    const result = validateGameState({ storyText: 'Only this.' });
+    expect(applyDefaults(result.partial)).toEqual({ ...GAME_STATE_DEFAULTS, storyText: 'Only this.' });
+  });
+
+  it('should list the issues and previous reply in the repair prompt', () => {
+    const prompt = buildRepairPrompt('{"storyText":""}', [{ field: 'storyText', message: 'must be a non-empty string' }]);
+    expect(prompt).toContain('- storyText must be a non-empty string');
+    expect(prompt).toContain('{"storyText":""}');
+  });
+});
+
+describe('Story Repair Pass', () => {
+  const mockFetch = jest.fn() as any;
+  const completion = (content: string) => ({
+    ok: true,
+    json: async () => ({ choices: [{ message: { content } }], usage: { prompt_tokens: 10, completion_tokens: 20 } })
+  });
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    localStorage.clear();
+    setStoredApiKey(AIProvider.OPENAI, 'test-openai-key');
+  });
+
+  it('should not send a repair request for a valid reply', async () => {
+    mockFetch.mockResolvedValueOnce(completion('```json\n' + JSON.stringify(mockState) + '\n```'));
+
+    const result = await generateStoryBeat('Begin', AIProvider.OPENAI);
+
+    expect(result.data).toEqual(mockState);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send one repair request and count its tokens', async () => {
+    mockFetch
+      .mockResolvedValueOnce(completion(JSON.stringify({ ...mockState, choices: [] })))
+      .mockResolvedValueOnce(completion(JSON.stringify(mockState)));
+
+    const result = await generateStoryBeat('Begin', AIProvider.OPENAI);
+
+    const repairBody = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(repairBody.messages[repairBody.messages.length - 1].content).toContain('- choices must offer at least one choice');
+    expect(result.data).toEqual(mockState);
+    expect(result.usage).toMatchObject({ inputTokens: 20, outputTokens: 40 });
+  });
+
+  it('should fall back to defaults when the repair is still invalid', async () => {
+    mockFetch
+      .mockResolvedValueOnce(completion(JSON.stringify({ ...mockState, choices: [] })))
+      .mockResolvedValueOnce(completion('{"storyText":"Still broken"}'));
+
+    const result = await generateStoryBeat('Begin', AIProvider.OPENAI);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result.data.storyText).toBe('Still broken');
+    expect(result.data.choices).toEqual(GAME_STATE_DEFAULTS.choices);
+    expect(result.data.inventory).toEqual(mockState.inventory);
+  });
+
+  it('should raise MalformedResponseError when neither reply has JSON', async () => {
+    mockFetch.mockResolvedValue(completion('I cannot do that.'));
+
+    await expect(generateStoryBeat('Begin', AIProvider.OPENAI)).rejects.toBeInstanceOf(MalformedResponseError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
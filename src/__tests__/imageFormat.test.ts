@@ -0,0 +1,91 @@
+import { jest } from '@jest/globals';
+import { generateImage, calculateEstimatedCost, setStoredApiKey } from '../../aiService.ts';
+import { resolveImageModel, setSelectedModel, getImageCapabilities } from '../../modelCatalog.ts';
+import { AIProvider, ImageSize } from '../../types.ts';
+
+const mockFetch = jest.fn() as any;
+
+const imageResponse = () => ({ ok: true, json: async () => ({ data: [{ b64_json: 'c2NlbmU=' }] }) });
+
+describe('Image Format Resolution', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should move high resolutions to a model that supports them', () => {
+    const resolved = resolveImageModel(AIProvider.GEMINI, { resolution: ImageSize.K4, aspectRatio: '16:9' });
+    expect(resolved?.model.id).toBe('gemini-3-pro-image-preview');
+    expect(resolved?.format).toEqual({ resolution: ImageSize.K4, aspectRatio: '16:9' });
+  });
+
+  it('should keep the selected model when it can produce the format', () => {
+    setSelectedModel(AIProvider.GEMINI, 'image', 'gemini-2.5-flash-image');
+    expect(resolveImageModel(AIProvider.GEMINI, { resolution: ImageSize.K1, aspectRatio: '9:16' })?.model.id).toBe('gemini-2.5-flash-image');
+  });
+
+  it('should clamp formats no model of the provider supports', () => {
+    const resolved = resolveImageModel(AIProvider.OPENAI, { resolution: ImageSize.K4, aspectRatio: '16:9' });
+    expect(resolved?.model.id).toBe('dall-e-3');
+    expect(resolved?.format.resolution).toBe(ImageSize.K2);
+  });
+
+  it('should report what each provider can produce', () => {
+    expect(getImageCapabilities(AIProvider.OPENAI).resolutions).toEqual([ImageSize.K1, ImageSize.K2]);
+    expect(getImageCapabilities(AIProvider.CLAUDE).aspectRatios).toEqual([]);
+  });
+});
+
+describe('DALL-E Image Options', () => {
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    localStorage.clear();
+    setStoredApiKey(AIProvider.OPENAI, 'test-openai-key');
+  });
+
+  it('should map aspect ratio and resolution to DALL-E size and quality', async () => {
+    mockFetch.mockResolvedValueOnce(imageResponse());
+
+    const result = await generateImage('A harbor', 'Noir', AIProvider.OPENAI, 'standard', {
+      format: { resolution: ImageSize.K2, aspectRatio: '16:9' }
+    });
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.size).toBe('1792x1024');
+    expect(body.quality).toBe('hd');
+    expect(result.usage.imageSize).toBe('hd 1792x1024');
+  });
+
+  it('should ask DALL-E for the image bytes so they can be archived', async () => {
+    mockFetch.mockResolvedValueOnce(imageResponse());
+
+    const result = await generateImage('A harbor', 'Noir', AIProvider.OPENAI, 'standard');
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).response_format).toBe('b64_json');
+    expect(result.data).toBe('data:image/png;base64,c2NlbmU=');
+  });
+
+  it('should bill images at the size that was requested', async () => {
+    mockFetch.mockResolvedValueOnce(imageResponse());
+
+    const result = await generateImage('A harbor', 'Noir', AIProvider.OPENAI, 'standard', {
+      format: { resolution: ImageSize.K1, aspectRatio: '9:16' }
+    });
+    const cost = calculateEstimatedCost(0, 0, 0, 1, AIProvider.OPENAI, result.usage.model, result.usage.imageSize);
+
+    expect(result.usage.imageSize).toBe('standard 1024x1792');
+    expect(cost).toBeCloseTo(0.08, 6);
+  });
+
+  it('should switch from DALL-E 2 when it cannot produce the shape', async () => {
+    setSelectedModel(AIProvider.OPENAI, 'image', 'dall-e-2');
+    mockFetch.mockResolvedValueOnce(imageResponse());
+
+    const result = await generateImage('A harbor', 'Noir', AIProvider.OPENAI, 'standard', {
+      format: { resolution: ImageSize.K1, aspectRatio: '16:9' }
+    });
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).model).toBe('dall-e-3');
+    expect(result.usage.model).toBe('dall-e-3');
+  });
+});
@@ -24,7 +24,7 @@ describe('Image Quality Settings', () => {
   describe('OpenAI Image Generation', () => {
     it('should use standard quality settings by default', async () => {
       const mockResponse = createMockResponse({
-        data: [{ url: 'https://example.com/standard-image.png' }],
+        data: [{ b64_json: 'AAAA' }],
       });
       mockFetch.mockResolvedValue(mockResponse);
 
@@ -45,7 +45,7 @@ describe('Image Quality Settings', () => {
 
     it('should use fast quality settings when specified', async () => {
       const mockResponse = createMockResponse({
-        data: [{ url: 'https://example.com/fast-image.png' }],
+        data: [{ b64_json: 'AAAA' }],
       });
       mockFetch.mockResolvedValue(mockResponse);
 
@@ -66,7 +66,7 @@ describe('Image Quality Settings', () => {
 
     it('should use simplified prompts for fast mode', async () => {
       const mockResponse = createMockResponse({
-        data: [{ url: 'https://example.com/fast-image.png' }],
+        data: [{ b64_json: 'AAAA' }],
       });
       mockFetch.mockResolvedValue(mockResponse);
 
@@ -81,7 +81,7 @@ describe('Image Quality Settings', () => {
 
     it('should use detailed prompts for standard mode', async () => {
       const mockResponse = createMockResponse({
-        data: [{ url: 'https://example.com/standard-image.png' }],
+        data: [{ b64_json: 'AAAA' }],
       });
       mockFetch.mockResolvedValue(mockResponse);
 
@@ -98,13 +98,13 @@ describe('Image Quality Settings', () => {
   describe('Text-Only Mode', () => {
     it('should handle image generation requests correctly', async () => {
       const mockResponse = createMockResponse({
-        data: [{ url: 'https://example.com/image.png' }],
+        data: [{ b64_json: 'AAAA' }],
       });
       mockFetch.mockResolvedValue(mockResponse);
 
       const result = await generateImage('A scene', 'fantasy', AIProvider.OPENAI, 'standard');
 
-      expect(result.data).toBe('https://example.com/image.png');
+      expect(result.data).toBe('data:image/png;base64,AAAA');
       expect(mockFetch).toHaveBeenCalledTimes(1);
     });
   });
@@ -112,7 +112,7 @@ describe('Image Quality Settings', () => {
   describe('Cost Optimization', () => {
     it('should use natural style for fast mode to reduce costs', async () => {
       const mockResponse = createMockResponse({
-        data: [{ url: 'https://example.com/fast-image.png' }],
+        data: [{ b64_json: 'AAAA' }],
       });
       mockFetch.mockResolvedValue(mockResponse);
 
@@ -127,7 +127,7 @@ describe('Image Quality Settings', () => {
 
     it('should use vivid style for standard mode', async () => {
       const mockResponse = createMockResponse({
-        data: [{ url: 'https://example.com/standard-image.png' }],
+        data: [{ b64_json: 'AAAA' }],
       });
       mockFetch.mockResolvedValue(mockResponse);
 
@@ -0,0 +1,84 @@
+import { parseInventoryItem, parseInventoryChanges, diffInventory, reconcileInventory, settleInventory, formatChange, formatInventory } from '../../inventory.ts';
+import { validateGameState } from '../../gameStateValidator.ts';
+import { GameState, InventoryItem } from '../../types.ts';
+
+const item = (name: string, extra: Partial<InventoryItem> = {}): InventoryItem => ({
+  id: name.toLowerCase(),
+  name,
+  quantity: 1,
+  description: '',
+  tags: [],
+  acquiredAt: 0,
+  ...extra
+});
+
+const carried = [item('Rope', { acquiredAt: 1 }), item('Torch', { quantity: 3 })];
+
+describe('Inventory', () => {
+  it('should read items from objects and from plain names', () => {
+    expect(parseInventoryItem('  Old Key ')).toEqual(item('Old Key', { id: 'old-key' }));
+    expect(parseInventoryItem({ name: 'Arrows', quantity: '12', tags: ['ammo', 3], description: ' Fletched. ' }))
+      .toEqual(item('Arrows', { quantity: 12, tags: ['ammo'], description: 'Fletched.' }));
+    expect(parseInventoryItem({ quantity: 2 })).toBeUndefined();
+    expect(parseInventoryChanges([{ name: 'Rope', reason: 'Tied to the mast' }, { name: 'Torch' }, 'lost']))
+      .toEqual([{ name: 'Rope', reason: 'Tied to the mast' }]);
+  });
+
+  it('should list what a beat gained, lost and changed', () => {
+    const after = [item('Torch', { quantity: 2 }), item('Map')];
+    const changes = diffInventory(carried, after);
+
+    expect(changes.map(change => `${change.kind} ${change.item.name}`)).toEqual(['changed Torch', 'gained Map', 'lost Rope']);
+    expect(changes.map(formatChange)).toEqual(['~ Torch 3 → 2', '+ Map', '− Rope']);
+  });
+
+  it('should keep explained changes and undo the rest', () => {
+    const proposed = [item('Torch', { quantity: 2 }), item('Map'), item('Gold', { quantity: 50 })];
+    const { inventory, diff } = reconcileInventory(carried, proposed, [
+      { name: 'torch', reason: 'One burned out' },
+      { name: 'Map', reason: 'Taken from the captain' }
+    ], 4);
+
+    expect(inventory.map(entry => entry.name)).toEqual(['Torch', 'Map', 'Rope']);
+    expect(inventory.find(entry => entry.name === 'Map')?.acquiredAt).toBe(4);
+    expect(diff.changes.map(change => change.reason)).toEqual(['One burned out', 'Taken from the captain']);
+    expect(diff.rejected.map(formatChange)).toEqual(['+ Gold ×50', '− Rope']);
+  });
+
+  it('should keep ids and acquisition beats of carried items', () => {
+    const { inventory, diff } = reconcileInventory(carried, [{ ...item('Rope'), id: 'coil-of-rope' }, carried[1]], [], 6);
+
+    expect(inventory[0]).toEqual(carried[0]);
+    expect(diff).toEqual({ changes: [], rejected: [] });
+  });
+
+  it('should accept the starting items of the opening beat', () => {
+    const { inventory, diff } = reconcileInventory(undefined, [item('Compass', { acquiredAt: 9 })], [], 0);
+
+    expect(inventory).toEqual([item('Compass')]);
+    expect(diff.changes.map(formatChange)).toEqual(['+ Compass']);
+  });
+
+  it('should settle a validated reply and drop its change notes', () => {
+    const reply: GameState = {
+      storyText: 'You trade your rope for a map.',
+      choices: ['Read the map'],
+      inventory: [],
+      currentQuest: 'Find the island',
+      visualPrompt: 'Harbour market',
+      worldStyle: 'Woodcut',
+      genre: 'Pirate'
+    };
+    const { state: validated } = validateGameState({
+      ...reply,
+      inventory: [{ id: 'map', name: 'Map' }, carried[1]],
+      inventoryChanges: [{ name: 'Map', reason: 'Traded for the rope' }, { name: 'Rope', reason: 'Given to the merchant' }]
+    });
+    const { state, diff } = settleInventory(validated!, carried, 2);
+
+    expect(state.inventoryChanges).toBeUndefined();
+    expect(formatInventory(state.inventory)).toBe('Map, Torch ×3');
+    expect(diff.changes.map(formatChange)).toEqual(['+ Map', '− Rope']);
+    expect(diff.rejected).toEqual([]);
+  });
+});
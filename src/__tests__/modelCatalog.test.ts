@@ -0,0 +1,92 @@
+import { jest } from '@jest/globals';
+import { getModelsFor, getSelectedModel, setSelectedModel, getModelPricing, MODEL_CATALOG } from '../../modelCatalog.ts';
+import { generateStoryBeat, getChatResponse, generateImage, setStoredApiKey } from '../../aiService.ts';
+import { AIProvider, GameState } from '../../types.ts';
+
+const mockFetch = jest.fn() as any;
+
+const mockState: GameState = {
+  storyText: 'Rain drums on the tin roof.',
+  choices: ['Wait it out'],
+  inventory: [],
+  currentQuest: 'Find the informant',
+  visualPrompt: 'Neon alley in the rain',
+  worldStyle: 'Noir',
+  genre: 'Noir'
+};
+
+const completion = (content: string) => ({
+  ok: true,
+  json: async () => ({ choices: [{ message: { content } }], usage: { prompt_tokens: 5, completion_tokens: 7 } })
+});
+
+describe('Model Catalog', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should list models by role', () => {
+    expect(getModelsFor(AIProvider.OPENAI, 'image').map(model => model.id)).toEqual(['dall-e-3', 'dall-e-2']);
+    expect(getModelsFor(AIProvider.CLAUDE, 'image')).toEqual([]);
+  });
+
+  it('should default to the first model for each role', () => {
+    expect(getSelectedModel(AIProvider.OPENAI, 'text')).toBe('gpt-4o-mini');
+    expect(getSelectedModel(AIProvider.GEMINI, 'image')).toBe('gemini-2.0-flash-exp');
+  });
+
+  it('should remember selections per role and ignore models outside the catalog', () => {
+    setSelectedModel(AIProvider.OPENAI, 'chat', 'gpt-4o');
+    expect(getSelectedModel(AIProvider.OPENAI, 'chat')).toBe('gpt-4o');
+    expect(getSelectedModel(AIProvider.OPENAI, 'text')).toBe('gpt-4o-mini');
+
+    setSelectedModel(AIProvider.OPENAI, 'text', 'dall-e-3');
+    expect(getSelectedModel(AIProvider.OPENAI, 'text')).toBe('gpt-4o-mini');
+  });
+
+  it('should price unknown models at the provider default and local models at zero', () => {
+    expect(getModelPricing(AIProvider.CLAUDE, 'claude-retired')).toEqual(MODEL_CATALOG[AIProvider.CLAUDE][0].pricing);
+    expect(getModelPricing(AIProvider.LOCAL, 'llama3.1').inputPerMillion).toBe(0);
+  });
+});
+
+describe('Model Selection in Requests', () => {
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    localStorage.clear();
+    setStoredApiKey(AIProvider.OPENAI, 'test-openai-key');
+  });
+
+  it('should send the selected story model and report it in usage', async () => {
+    setSelectedModel(AIProvider.OPENAI, 'text', 'gpt-4o');
+    mockFetch.mockResolvedValueOnce(completion(JSON.stringify(mockState)));
+
+    const result = await generateStoryBeat('Begin', AIProvider.OPENAI);
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).model).toBe('gpt-4o');
+    expect(result.usage.model).toBe('gpt-4o');
+  });
+
+  it('should use the chat model for the Chronicler', async () => {
+    setSelectedModel(AIProvider.OPENAI, 'chat', 'gpt-3.5-turbo');
+    mockFetch.mockResolvedValueOnce(completion('Ask the bartender.'));
+
+    const result = await getChatResponse('Who knows?', mockState, AIProvider.OPENAI);
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).model).toBe('gpt-3.5-turbo');
+    expect(result.usage.model).toBe('gpt-3.5-turbo');
+  });
+
+  it('should leave out DALL-E 3 options when DALL-E 2 is selected', async () => {
+    setSelectedModel(AIProvider.OPENAI, 'image', 'dall-e-2');
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ data: [{ b64_json: 'YQ==' }] }) });
+
+    const result = await generateImage('An alley', 'Noir', AIProvider.OPENAI);
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.model).toBe('dall-e-2');
+    expect(body.style).toBeUndefined();
+    expect(result.usage.model).toBe('dall-e-2');
+  });
+});
@@ -0,0 +1,131 @@
+import { jest } from '@jest/globals';
+import {
+  EMPTY_MEMORY,
+  rememberBeat,
+  rebuildMemory,
+  fallbackRecap,
+  buildMemoryContext,
+  memoryContextFor,
+  memoryContextForChain,
+  parseMemoryNotes,
+  splitMemoryNotes,
+  estimateTokens
+} from '../../narrativeMemory.ts';
+import { generateStoryBeat, setStoredApiKey } from '../../aiService.ts';
+import { AIProvider, GameHistoryItem, GameState } from '../../types.ts';
+
+const mockState: GameState = {
+  storyText: 'The ferryman names his price.',
+  choices: ['Pay him', 'Swim'],
+  inventory: [{ id: 'coin', name: 'Coin', quantity: 1, description: '', tags: [], acquiredAt: 0 }],
+  currentQuest: 'Cross the river',
+  visualPrompt: 'Misty river crossing',
+  worldStyle: 'Dark fantasy',
+  genre: 'Fantasy'
+};
+
+describe('rememberBeat', () => {
+  it('should add the summary and merge facts without duplicates', () => {
+    let memory = rememberBeat(EMPTY_MEMORY, 'ignored', { summary: 'Met Old Marta.', npcs: ['Old Marta'], places: ['Greywater'], promises: [], resolved: [] });
+    memory = rememberBeat(memory, 'ignored', { summary: 'Marta returns.', npcs: ['old marta', 'The Ferryman'], places: [], promises: [], resolved: [] });
+
+    expect(memory.recaps).toEqual(['Met Old Marta.', 'Marta returns.']);
+    expect(memory.npcs).toEqual(['old marta', 'The Ferryman']);
+    expect(memory.places).toEqual(['Greywater']);
+  });
+
+  it('should drop promises once they are resolved', () => {
+    let memory = rememberBeat(EMPTY_MEMORY, 'x', { summary: 'A deal.', npcs: [], places: [], promises: ['Pay the ferryman'], resolved: [] });
+    memory = rememberBeat(memory, 'x', { summary: 'Paid.', npcs: [], places: [], promises: [], resolved: ['pay the ferryman'] });
+
+    expect(memory.promises).toEqual([]);
+  });
+
+  it('should fall back to the first sentence when there are no notes', () => {
+    const memory = rememberBeat(EMPTY_MEMORY, 'The gate creaks open. Beyond it, darkness.');
+    expect(memory.recaps).toEqual(['The gate creaks open.']);
+  });
+});
+
+describe('fallbackRecap', () => {
+  it('should cap very long sentences', () => {
+    const recap = fallbackRecap('a'.repeat(500));
+    expect(recap.length).toBe(240);
+    expect(recap.endsWith('…')).toBe(true);
+  });
+});
+
+describe('rebuildMemory', () => {
+  it('should replay newest-first history in story order', () => {
+    const history: GameHistoryItem[] = [
+      { text: 'Third beat.', choice: 'c', state: mockState },
+      { text: 'Second beat.', choice: 'b', state: mockState },
+      { text: 'First beat.', choice: 'The Beginning', state: mockState }
+    ];
+    expect(rebuildMemory(history).recaps).toEqual(['First beat.', 'Second beat.', 'Third beat.']);
+  });
+});
+
+describe('buildMemoryContext', () => {
+  it('should keep the newest recaps within the budget and mark the omission', () => {
+    const memory = { ...EMPTY_MEMORY, recaps: Array.from({ length: 50 }, (_, i) => `Event number ${i} happened here.`) };
+
+    const context = buildMemoryContext(memory, 100);
+
+    expect(estimateTokens(context)).toBeLessThanOrEqual(110);
+    expect(context).toContain('Event number 49 happened');
+    expect(context).not.toContain('Event number 0 happened');
+    expect(context).toContain('(earlier events omitted)');
+  });
+
+  it('should trim facts to half the budget, oldest first', () => {
+    const memory = { ...EMPTY_MEMORY, recaps: ['Arrived.'], npcs: Array.from({ length: 40 }, (_, i) => `Character ${i}`) };
+
+    const context = buildMemoryContext(memory, 100);
+
+    expect(context).toContain('Character 39');
+    expect(context).not.toContain('Character 0,');
+    expect(context).toContain('- Arrived.');
+  });
+
+  it('should give local models a smaller budget than hosted ones', () => {
+    const memory = { ...EMPTY_MEMORY, recaps: Array.from({ length: 200 }, (_, i) => `Event number ${i} happened here.`) };
+    expect(memoryContextFor(memory, AIProvider.LOCAL).length).toBeLessThan(memoryContextFor(memory, AIProvider.GEMINI).length);
+  });
+
+  it('should fit the smallest budget in a failover chain', () => {
+    const memory = { ...EMPTY_MEMORY, recaps: Array.from({ length: 200 }, (_, i) => `Event number ${i} happened here.`) };
+    expect(memoryContextForChain(memory, [AIProvider.GEMINI, AIProvider.LOCAL])).toBe(memoryContextFor(memory, AIProvider.LOCAL));
+    expect(memoryContextForChain(memory, [AIProvider.GEMINI])).toBe(memoryContextFor(memory, AIProvider.GEMINI));
+  });
+});
+
+describe('Memory notes in story replies', () => {
+  const mockFetch = jest.fn() as any;
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    localStorage.clear();
+    setStoredApiKey(AIProvider.OPENAI, 'test-openai-key');
+  });
+
+  it('should parse notes from the reply and split them from the state', async () => {
+    const reply = { ...mockState, memoryNotes: { summary: 'The ferryman wants gold.', npcs: ['The Ferryman', 42], promises: ['Pay the ferryman'] } };
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: JSON.stringify(reply) } }], usage: { prompt_tokens: 10, completion_tokens: 20 } })
+    });
+
+    const result = await generateStoryBeat('Continue', AIProvider.OPENAI);
+    const { state, notes } = splitMemoryNotes(result.data);
+
+    expect(state).toEqual(mockState);
+    expect(notes).toEqual({ summary: 'The ferryman wants gold.', npcs: ['The Ferryman'], places: [], promises: ['Pay the ferryman'], resolved: [] });
+  });
+
+  it('should ignore malformed notes', () => {
+    expect(parseMemoryNotes('just a string')).toBeUndefined();
+    expect(parseMemoryNotes([1, 2])).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import { normalizeAction, parseActionCheck, splitActionCheck, MAX_ACTION_LENGTH } from '../../playerActions.ts';
+import { validateGameState } from '../../gameStateValidator.ts';
+import { renderPrompt } from '../../promptTemplates.ts';
+
+const reply = {
+  storyText: 'The guard laughs at your lantern and pockets nothing.',
+  choices: ['Walk away', 'Offer coin instead'],
+  inventory: [{ id: 'lantern', name: 'Lantern', quantity: 1, description: '', tags: [], acquiredAt: 0 }],
+  currentQuest: 'Enter the keep',
+  visualPrompt: 'A sneering guard',
+  worldStyle: 'Dark fantasy',
+  genre: 'Fantasy'
+};
+
+describe('Player Actions', () => {
+  it('should tidy typed actions and reject empty ones', () => {
+    expect(normalizeAction('  I try   to bribe\nthe guard  ')).toBe('I try to bribe the guard');
+    expect(normalizeAction('   ')).toBeUndefined();
+    expect(normalizeAction('a'.repeat(MAX_ACTION_LENGTH + 50))).toHaveLength(MAX_ACTION_LENGTH);
+  });
+
+  it('should read the plausibility ruling leniently', () => {
+    expect(parseActionCheck({ plausible: false, reason: ' The lantern is worthless to him. ' })).toEqual({ plausible: false, reason: 'The lantern is worthless to him.' });
+    expect(parseActionCheck({ plausible: 'true' })).toEqual({ plausible: true, reason: '' });
+    expect(parseActionCheck({ reason: 'No verdict' })).toBeUndefined();
+    expect(parseActionCheck('yes')).toBeUndefined();
+  });
+
+  it('should keep the ruling through validation and split it off the state', () => {
+    const { state } = validateGameState({ ...reply, actionCheck: { plausible: false, reason: 'Guards here cannot be bribed.' } });
+    const { state: clean, check } = splitActionCheck(state!);
+
+    expect(check).toEqual({ plausible: false, reason: 'Guards here cannot be bribed.' });
+    expect(clean).toEqual(reply);
+  });
+
+  it('should put the typed action and the inventory check into the prompt', () => {
+    const rendered = renderPrompt('playerAction', {
+      state: JSON.stringify({ inventory: ['Lantern'] }),
+      action: 'I bribe the guard with my lantern',
+      memory: '(nothing yet)',
+      rules: ''
+    });
+
+    expect(rendered.version).toBe('playerAction@v4');
+    expect(rendered.text).toContain('"I bribe the guard with my lantern"');
+    expect(rendered.text).toContain('"inventory":["Lantern"]');
+    expect(rendered.text).toContain('actionCheck');
+    expect(rendered.text).toContain('If it is not plausible');
+  });
+});
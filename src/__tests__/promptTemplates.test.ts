@@ -0,0 +1,66 @@
+import {
+  DEFAULT_TEMPLATES,
+  renderPrompt,
+  getTemplateText,
+  getTemplateVersion,
+  isTemplateOverridden,
+  setTemplateOverride,
+  resetTemplate,
+  findUnknownVariables
+} from '../../promptTemplates.ts';
+
+describe('Prompt Templates', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should fill every variable and report the built-in version', () => {
+    const rendered = renderPrompt('advanceStory', { state: '{"genre":"Noir"}', choice: 'Open the door', memory: '- The rain never stops.', rules: '' });
+
+    expect(rendered.text).toContain('Story memory:\n- The rain never stops.\n\nGame State: {"genre":"Noir"}. Choice: "Open the door". Advance the plot.');
+    expect(rendered.text).not.toContain('{{');
+    expect(rendered.version).toBe(`advanceStory@v${DEFAULT_TEMPLATES.advanceStory.version}`);
+  });
+
+  it('should repeat variables wherever they appear', () => {
+    const rendered = renderPrompt('openingScene', { genre: 'Space Opera', directives: '' });
+    expect(rendered.text).not.toContain('{{');
+    expect(rendered.text.match(/Space Opera/g)).toHaveLength(3);
+  });
+
+  it('should use an override and fingerprint its version', () => {
+    setTemplateOverride('chronicler', 'You are a terse oracle of {{genre}}.');
+
+    const rendered = renderPrompt('chronicler', { genre: 'Noir', quest: 'Find the informant', inventory: '', recentBeats: '' });
+
+    expect(rendered.text).toBe('You are a terse oracle of Noir.');
+    expect(rendered.version).toMatch(/^chronicler@v3-custom\.[0-9a-f]{8}$/);
+    expect(isTemplateOverridden('chronicler')).toBe(true);
+  });
+
+  it('should give different edits different versions', () => {
+    setTemplateOverride('advanceStory', 'A {{choice}}');
+    const first = getTemplateVersion('advanceStory');
+    setTemplateOverride('advanceStory', 'B {{choice}}');
+    expect(getTemplateVersion('advanceStory')).not.toBe(first);
+  });
+
+  it('should reject placeholders the template has no variable for', () => {
+    expect(findUnknownVariables('advanceStory', '{{state}} {{genre}} {{ mood }}')).toEqual(['genre', 'mood']);
+    expect(() => setTemplateOverride('advanceStory', '{{genre}}')).toThrow('Unknown template variables: genre');
+    expect(isTemplateOverridden('advanceStory')).toBe(false);
+  });
+
+  it('should reset to the built-in text', () => {
+    setTemplateOverride('retroDirectives', 'Neon everything.');
+    resetTemplate('retroDirectives');
+
+    expect(getTemplateText('retroDirectives')).toBe(DEFAULT_TEMPLATES.retroDirectives.text);
+    expect(getTemplateVersion('retroDirectives')).toBe('retroDirectives@v1');
+  });
+
+  it('should treat saving the built-in text as a reset', () => {
+    setTemplateOverride('openingScene', DEFAULT_TEMPLATES.openingScene.text);
+    expect(isTemplateOverridden('openingScene')).toBe(false);
+  });
+});
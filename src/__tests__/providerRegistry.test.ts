@@ -0,0 +1,85 @@
+import { jest } from '@jest/globals';
+import { generateImage, generateStoryBeat, hasApiKey, getLocalModelSettings, setLocalModelSettings } from '../../aiService.ts';
+import { registerProvider, getProviderAdapter, getProviderCapabilities, getRegisteredProviders } from '../../providerRegistry.ts';
+import { AIProvider, GameState } from '../../types.ts';
+
+const mockState: GameState = {
+  storyText: 'A door creaks open.',
+  choices: ['Enter', 'Flee'],
+  inventory: [],
+  currentQuest: 'Find the key',
+  visualPrompt: 'A creaking door',
+  worldStyle: 'Fantasy',
+  genre: 'Fantasy'
+};
+
+describe('Provider Registry', () => {
+  it('should register the built-in providers', () => {
+    const ids = getRegisteredProviders().map(adapter => adapter.id);
+    expect(ids).toEqual(expect.arrayContaining([AIProvider.GEMINI, AIProvider.OPENAI, AIProvider.CLAUDE]));
+  });
+
+  it('should declare that Claude cannot generate images', () => {
+    expect(getProviderCapabilities(AIProvider.CLAUDE).image).toBe(false);
+    expect(getProviderAdapter(AIProvider.CLAUDE).generateImage).toBeUndefined();
+  });
+
+  it('should reject image requests for providers without image support', async () => {
+    await expect(generateImage('A scene', 'fantasy', AIProvider.CLAUDE)).rejects.toThrow('does not support image generation');
+  });
+
+  it('should throw for unknown providers', () => {
+    expect(() => getProviderAdapter('UNKNOWN' as AIProvider)).toThrow('Unsupported provider: UNKNOWN');
+  });
+
+  it('should dispatch to a newly registered adapter', async () => {
+    const original = getProviderAdapter(AIProvider.GEMINI);
+    const generateStoryText = jest.fn(async () => ({
+      data: JSON.stringify(mockState),
+      usage: { inputTokens: 1, outputTokens: 2, provider: AIProvider.GEMINI }
+    }));
+    registerProvider({ ...original, generateStoryText });
+
+    try {
+      const result = await generateStoryBeat('Begin', AIProvider.GEMINI);
+      expect(generateStoryText).toHaveBeenCalledWith('Begin', { signal: expect.any(AbortSignal) });
+      expect(result.data).toEqual(mockState);
+    } finally {
+      registerProvider(original);
+    }
+  });
+});
+
+describe('Local Provider', () => {
+  const mockFetch = jest.fn() as any;
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    localStorage.clear();
+  });
+
+  it('should only count as configured once a base URL is saved', () => {
+    expect(hasApiKey(AIProvider.LOCAL)).toBe(false);
+    setLocalModelSettings({ baseUrl: 'http://127.0.0.1:8080/v1/', model: 'qwen2.5' });
+    expect(hasApiKey(AIProvider.LOCAL)).toBe(true);
+    expect(getLocalModelSettings()).toEqual({ baseUrl: 'http://127.0.0.1:8080/v1', model: 'qwen2.5' });
+  });
+
+  it('should send chat-completions requests to the configured server', async () => {
+    setLocalModelSettings({ baseUrl: 'http://127.0.0.1:8080/v1', model: 'qwen2.5' });
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: JSON.stringify(mockState) } }] })
+    });
+
+    const result = await generateStoryBeat('Begin', AIProvider.LOCAL);
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('http://127.0.0.1:8080/v1/chat/completions');
+    expect(JSON.parse(init.body).model).toBe('qwen2.5');
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(result.data.storyText).toBe(mockState.storyText);
+    expect(result.usage).toEqual({ inputTokens: 0, outputTokens: 0, provider: AIProvider.LOCAL, model: 'qwen2.5' });
+  });
+});
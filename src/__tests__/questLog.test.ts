@@ -0,0 +1,97 @@
+import { parseQuests, settleQuests, questEventsAt, sortQuests, upgradeQuestLog } from '../../questLog.ts';
+import { validateGameState } from '../../gameStateValidator.ts';
+import { upgradeSave } from '../../saveSchema.ts';
+import { GameState, Quest } from '../../types.ts';
+
+const stateWith = (currentQuest: string, quests?: Quest[]): GameState => ({
+  storyText: 'The caravan halts at the oasis.',
+  choices: ['Water the camels'],
+  inventory: [],
+  currentQuest,
+  visualPrompt: 'Desert oasis',
+  worldStyle: 'Painterly',
+  genre: 'Adventure',
+  quests
+});
+
+const quest = (title: string, extra: Partial<Quest> = {}): Quest => ({
+  id: title.toLowerCase().replace(/ /g, '-'),
+  title,
+  objectives: [],
+  status: 'active',
+  startedAt: 0,
+  ...extra
+});
+
+const log = [quest('Reach the city', { objectives: [{ text: 'Find a guide', done: false }] }), quest('Repay Hakim', { startedAt: 1 })];
+
+describe('Quest Log', () => {
+  it('should read quests leniently', () => {
+    expect(parseQuests([
+      { title: ' Reach the city ', objectives: ['Find a guide', { text: 'Cross the dunes', done: 'true' }, {}], status: 'Completed' },
+      { id: 'x', status: 'active' },
+      { title: 'Repay Hakim', status: 'postponed' }
+    ])).toEqual([
+      quest('Reach the city', { objectives: [{ text: 'Find a guide', done: false }, { text: 'Cross the dunes', done: true }], status: 'completed' }),
+      quest('Repay Hakim')
+    ]);
+    expect(parseQuests('Reach the city')).toBeUndefined();
+  });
+
+  it('should keep the log through validation', () => {
+    const { state } = validateGameState({ ...stateWith('Reach the city'), quests: [{ id: 'reach-the-city', title: 'Reach the city', objectives: [], status: 'active' }] });
+    expect(state?.quests).toEqual([quest('Reach the city')]);
+
+    const saved = [quest('Repay Hakim', { startedAt: 1, status: 'completed', endedAt: 3 })];
+    expect(validateGameState(stateWith('Reach the city', saved)).state?.quests).toEqual(saved);
+  });
+
+  it('should start the log from the opening quest', () => {
+    expect(settleQuests(stateWith('Reach the city'), undefined, 0).quests).toEqual([quest('Reach the city')]);
+    expect(settleQuests(stateWith('Reach the city', [quest('Reach the city', { startedAt: 7 })]), undefined, 0).quests).toEqual([quest('Reach the city')]);
+  });
+
+  it('should record when quests start and end and never drop them', () => {
+    const reply = stateWith('Reach the city', [
+      quest('Reach the city', { id: 'city', objectives: [{ text: 'Find a guide', done: true }] }),
+      quest('Find the lost well', { status: 'active' })
+    ]);
+    const next = settleQuests(reply, log, 4).quests!;
+
+    expect(next).toEqual([
+      quest('Reach the city', { objectives: [{ text: 'Find a guide', done: true }] }),
+      quest('Repay Hakim', { startedAt: 1 }),
+      quest('Find the lost well', { startedAt: 4 })
+    ]);
+
+    const ended = settleQuests(stateWith('Find the lost well', [quest('Repay Hakim', { status: 'failed' })]), next, 6).quests!;
+    expect(ended[1]).toEqual(quest('Repay Hakim', { startedAt: 1, status: 'failed', endedAt: 6 }));
+    expect(questEventsAt(ended, 4).map(event => `${event.kind} ${event.quest.title}`)).toEqual(['started Find the lost well']);
+    expect(questEventsAt(ended, 6).map(event => `${event.kind} ${event.quest.title}`)).toEqual(['failed Repay Hakim']);
+  });
+
+  it('should keep finished quests finished', () => {
+    const finished = [quest('Repay Hakim', { status: 'completed', endedAt: 3 })];
+    const reopened = settleQuests(stateWith('Repay Hakim', [quest('Repay Hakim')]), finished, 5).quests!;
+    expect(reopened).toEqual(finished);
+    expect(settleQuests(stateWith('Repay Hakim'), finished, 5).quests).toEqual(finished);
+  });
+
+  it('should list active quests before finished ones', () => {
+    const quests = [quest('A', { status: 'completed', endedAt: 2 }), quest('B'), quest('C', { status: 'abandoned', endedAt: 5 })];
+    expect(sortQuests(quests).map(entry => entry.title)).toEqual(['B', 'C', 'A']);
+  });
+
+  it('should give older saves a log holding their current quest', () => {
+    const history = [
+      { text: 'Oasis', choice: 'Go on', state: stateWith('Reach the city') },
+      { text: 'Dunes', choice: 'Go on', state: stateWith('Reach the city') },
+      { text: 'Camp', choice: 'The Beginning', state: stateWith('Leave camp') }
+    ];
+    expect(upgradeQuestLog(stateWith('Reach the city'), history)).toEqual([quest('Reach the city', { startedAt: 1 })]);
+
+    const { slot } = upgradeSave({ id: 'caravan', schemaVersion: 5, name: 'Caravan', genre: 'Adventure', lastUpdated: 0, gameState: history[0].state, history, chatMessages: [], usageStats: {}, diceSeed: 1 });
+    expect(slot?.gameState.quests).toEqual([quest('Reach the city', { startedAt: 1 })]);
+    expect(slot?.history[2].state?.quests).toEqual([quest('Leave camp')]);
+  });
+});
@@ -0,0 +1,69 @@
+import { upgradeSave, SAVE_SCHEMA_VERSION, SAVE_MIGRATIONS } from '../../saveSchema.ts';
+
+// Inventories were plain names before schema 4
+const gameState = {
+  storyText: 'The station hums.',
+  choices: ['Check the airlock'],
+  inventory: ['Wrench'],
+  currentQuest: 'Restore power',
+  visualPrompt: 'Dim corridor',
+  worldStyle: 'Retro sci-fi',
+  genre: 'Sci-Fi'
+};
+
+// What the game saved before slots were versioned
+const unversioned = {
+  id: 'old-save',
+  name: 'Sci-Fi - 10:42',
+  genre: 'Sci-Fi',
+  lastUpdated: 1700000000000,
+  gameState,
+  history: [
+    { text: 'Power fails again.', choice: 'Wait' },
+    { text: 'The station hums.', choice: 'The Beginning', state: gameState }
+  ],
+  usageStats: { inputTokens: 120, outputTokens: 300 }
+};
+
+describe('Save Schema Migrations', () => {
+  it('should have a migration for every version below the current one', () => {
+    for (let version = 0; version < SAVE_SCHEMA_VERSION; version++) {
+      expect(SAVE_MIGRATIONS[version]).toBeInstanceOf(Function);
+    }
+  });
+
+  it('should upgrade unversioned saves through the whole chain', () => {
+    const { slot, upgraded, error } = upgradeSave(unversioned);
+
+    expect(error).toBeUndefined();
+    expect(upgraded).toBe(true);
+    expect(slot?.schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+    expect(slot?.chatMessages).toEqual([]);
+    expect(slot?.usageStats).toEqual({ inputTokens: 120, outputTokens: 300, imageCount: 0, premiumImageCount: 0, estimatedCost: 0, rerollCount: 0, rerollCost: 0 });
+    expect(slot?.memory?.recaps).toEqual(['The station hums.', 'Power fails again.']);
+    expect(slot?.gameState.inventory).toEqual([{ id: 'wrench', name: 'Wrench', quantity: 1, description: '', tags: [], acquiredAt: 0 }]);
+    expect(slot?.history[1].state?.inventory[0].name).toBe('Wrench');
+  });
+
+  it('should leave current saves alone', () => {
+    const current = upgradeSave(upgradeSave(unversioned).slot);
+    expect(current.upgraded).toBe(false);
+    expect(current.slot?.name).toBe('Sci-Fi - 10:42');
+  });
+
+  it('should patch a game state that still has its story', () => {
+    const { slot, upgraded } = upgradeSave({ ...unversioned, schemaVersion: SAVE_SCHEMA_VERSION, memory: { recaps: [], npcs: [], places: [], promises: [] }, chatMessages: [], gameState: { storyText: 'Only this survived.' } });
+    expect(upgraded).toBe(true);
+    expect(slot?.gameState.storyText).toBe('Only this survived.');
+    expect(slot?.gameState.choices.length).toBeGreaterThan(0);
+  });
+
+  it('should refuse saves it cannot make sense of', () => {
+    expect(upgradeSave('nope').error).toBe('Not a save record');
+    expect(upgradeSave({ ...unversioned, schemaVersion: SAVE_SCHEMA_VERSION + 1 }).error).toContain('newer version');
+    expect(upgradeSave({ ...unversioned, schemaVersion: 'two' }).error).toContain('Unknown save version');
+    expect(upgradeSave({ ...unversioned, id: undefined }).error).toBe('Missing save id');
+    expect(upgradeSave({ ...unversioned, history: 'lost' }).error).toBe('Story history is not a list');
+    expect(upgradeSave({ ...unversioned, gameState: { choices: [] } }).error).toContain('Game state is unreadable');
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  createLocalStorageBackend,
+  setStorageBackend,
+  migrateLegacyStorage,
+  loadSaves,
+  writeSave,
+  removeSave,
+  loadPreferences,
+  savePreferences,
+  loadQuarantine,
+  discardQuarantined,
+  LEGACY_KEYS,
+  DEFAULT_PREFERENCES,
+  StorageBackend
+} from '../../saveStore.ts';
+import { SAVE_SCHEMA_VERSION } from '../../saveSchema.ts';
+import { GameState, SaveSlot } from '../../types.ts';
+
+const state = (storyText: string): GameState => ({
+  storyText,
+  choices: ['Onward'],
+  inventory: [],
+  currentQuest: 'Survive',
+  visualPrompt: 'Ruins',
+  worldStyle: 'Noir',
+  genre: 'Noir'
+});
+
+const slot = (id: string, lastUpdated: number, storyText = 'Rain again.'): SaveSlot => ({
+  id,
+  schemaVersion: SAVE_SCHEMA_VERSION,
+  name: `Noir - ${id}`,
+  genre: 'Noir',
+  lastUpdated,
+  gameState: state(storyText),
+  history: [{ text: storyText, choice: 'The Beginning' }],
+  chatMessages: [],
+  usageStats: { inputTokens: 1, outputTokens: 2, imageCount: 0, premiumImageCount: 0, estimatedCost: 0, rerollCount: 0, rerollCost: 0 },
+  diceSeed: 1
+});
+
+describe('Save Store', () => {
+  let backend: StorageBackend;
+
+  beforeEach(() => {
+    localStorage.clear();
+    backend = createLocalStorageBackend();
+    setStorageBackend(backend);
+  });
+
+  afterAll(() => {
+    setStorageBackend(null);
+  });
+
+  it('should keep each slot in its own record, newest first', async () => {
+    await writeSave(slot('a', 100));
+    await writeSave(slot('b', 200));
+
+    expect((await loadSaves()).map(s => s.id)).toEqual(['b', 'a']);
+    expect(localStorage.getItem('CHRONICLE_WEAVER_SLOTS_a')).toContain('"id":"a"');
+
+    await removeSave('a');
+    expect((await loadSaves()).map(s => s.id)).toEqual(['b']);
+  });
+
+  it('should merge preference changes', async () => {
+    expect(await loadPreferences()).toEqual(DEFAULT_PREFERENCES);
+    await savePreferences({ fontSize: 20 });
+    await savePreferences({ budgetThreshold: 12 });
+    expect(await loadPreferences()).toEqual({ fontSize: 20, budgetThreshold: 12 });
+  });
+
+  it('should drop inline images when storage is full', async () => {
+    const full = { ...slot('a', 1), history: [{ text: 'x', choice: 'y', imageUrl: 'data:image/png;base64,AAAA', imageAsset: 'asset:abc' }] };
+    const put = backend.put;
+    let attempts = 0;
+    backend.put = async (store, key, value) => {
+      if (store === 'slots' && attempts++ === 0) throw new DOMException('full', 'QuotaExceededError');
+      return put(store, key, value);
+    };
+
+    await writeSave(full);
+
+    const [saved] = await loadSaves();
+    expect(saved.history[0].imageUrl).toBeUndefined();
+    expect(saved.history[0].imageAsset).toBe('asset:abc');
+  });
+});
+
+describe('Legacy Storage Migration', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterAll(() => {
+    setStorageBackend(null);
+  });
+
+  it('should move V2 saves, autosaves and preferences into the backend', async () => {
+    localStorage.setItem(LEGACY_KEYS.saves, JSON.stringify([slot('kept', 100), slot('stale', 100, 'Old news.')]));
+    localStorage.setItem('autosave_stale', JSON.stringify({ gameState: state('Newer news.'), history: [], usageStats: null, lastSaved: 500 }));
+    localStorage.setItem('autosave_kept', JSON.stringify({ gameState: state('Older.'), history: [], lastSaved: 50 }));
+    localStorage.setItem('autosave_orphan', JSON.stringify({ gameState: state('Lost turn.'), history: [{ text: 'Lost turn.', choice: 'Go' }], lastSaved: 300 }));
+    localStorage.setItem(LEGACY_KEYS.fontSize, '22');
+    localStorage.setItem(LEGACY_KEYS.budgetThreshold, '7.5');
+
+    setStorageBackend(createLocalStorageBackend());
+    const saves = await loadSaves();
+
+    expect(saves.map(s => s.id)).toEqual(['stale', 'orphan', 'kept']);
+    expect(saves[0].gameState.storyText).toBe('Newer news.');
+    expect(saves[0].usageStats.inputTokens).toBe(1);
+    expect(saves[1]).toMatchObject({ name: 'Noir - Recovered', chatMessages: [], lastUpdated: 300 });
+    expect(saves[2].gameState.storyText).toBe('Rain again.');
+    expect(await loadPreferences()).toEqual({ fontSize: 22, budgetThreshold: 7.5 });
+
+    for (const key of [LEGACY_KEYS.saves, LEGACY_KEYS.fontSize, LEGACY_KEYS.budgetThreshold, 'autosave_stale', 'autosave_kept', 'autosave_orphan']) {
+      expect(localStorage.getItem(key)).toBeNull();
+    }
+  });
+
+  it('should only run once', async () => {
+    const backend = createLocalStorageBackend();
+    await migrateLegacyStorage(backend);
+    localStorage.setItem(LEGACY_KEYS.saves, JSON.stringify([slot('late', 100)]));
+
+    await migrateLegacyStorage(backend);
+
+    expect(await backend.getAll('slots')).toEqual([]);
+  });
+
+  it('should quarantine unreadable legacy data', async () => {
+    localStorage.setItem(LEGACY_KEYS.saves, JSON.stringify([slot('fine', 1), { name: 'No id' }]));
+    localStorage.setItem('autosave_broken', 'nope');
+
+    setStorageBackend(createLocalStorageBackend());
+
+    expect((await loadSaves()).map(s => s.id)).toEqual(['fine']);
+    const quarantined = await loadQuarantine();
+    expect(quarantined.map(entry => entry.key).sort()).toEqual(['legacy-autosave_broken', 'legacy-save-1']);
+    expect(quarantined.find(entry => entry.key === 'legacy-autosave_broken')?.raw).toBe('nope');
+  });
+});
+
+describe('Save Quarantine', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setStorageBackend(createLocalStorageBackend());
+  });
+
+  afterAll(() => {
+    setStorageBackend(null);
+  });
+
+  it('should move unreadable and unknown-version slots out of the save list', async () => {
+    await writeSave(slot('good', 1));
+    localStorage.setItem('CHRONICLE_WEAVER_SLOTS_garbled', '{"id":"garbled",');
+    localStorage.setItem('CHRONICLE_WEAVER_SLOTS_future', JSON.stringify({ ...slot('future', 2), schemaVersion: 99 }));
+
+    expect((await loadSaves()).map(s => s.id)).toEqual(['good']);
+
+    const quarantined = await loadQuarantine();
+    expect(quarantined.map(entry => entry.key).sort()).toEqual(['future', 'garbled']);
+    expect(quarantined.find(entry => entry.key === 'garbled')?.raw).toBe('{"id":"garbled",');
+    expect(quarantined.find(entry => entry.key === 'future')?.reason).toContain('newer version');
+    expect(localStorage.getItem('CHRONICLE_WEAVER_SLOTS_garbled')).toBeNull();
+
+    await discardQuarantined('garbled');
+    expect((await loadQuarantine()).map(entry => entry.key)).toEqual(['future']);
+  });
+
+  it('should write upgraded slots back at the current version', async () => {
+    const { schemaVersion, memory, ...unversioned } = slot('old', 1);
+    localStorage.setItem('CHRONICLE_WEAVER_SLOTS_old', JSON.stringify(unversioned));
+
+    const [loaded] = await loadSaves();
+
+    expect(loaded.schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+    expect(JSON.parse(localStorage.getItem('CHRONICLE_WEAVER_SLOTS_old') || '{}').schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+  });
+});
@@ -0,0 +1,106 @@
+import { buildBook, toMarkdown, toHtml, toEpub, publishBook, genreFontClass, escapeXml, StoryBook } from '../../storyPublisher.ts';
+import { createZip, crc32 } from '../../zipArchive.ts';
+import { storeImage, setAssetBackend, createMemoryBackend } from '../../assetStore.ts';
+import { GameHistoryItem } from '../../types.ts';
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+// Newest first, as the game keeps it
+const history = async (): Promise<GameHistoryItem[]> => [
+  { text: 'The door gives way.\nBeyond it, <stairs> lead down.', choice: 'Kick the door', imageAsset: await storeImage(PIXEL) },
+  { text: 'A locked door blocks the hall.', choice: 'The Beginning' }
+];
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('Story Publisher', () => {
+  let book: StoryBook;
+
+  beforeEach(async () => {
+    setAssetBackend(createMemoryBackend());
+    book = await buildBook({ id: 'save-1', title: 'The Crypt', genre: 'Dark Fantasy', history: await history() });
+  });
+
+  it('should build chapters in reading order with their illustrations', () => {
+    expect(book.chapters.map(chapter => chapter.number)).toEqual([1, 2]);
+    expect(book.chapters[0].choice).toBeUndefined();
+    expect(book.chapters[0].image).toBeUndefined();
+    expect(book.chapters[1].choice).toBe('Kick the door');
+    expect(book.chapters[1].paragraphs).toEqual(['The door gives way.', 'Beyond it, <stairs> lead down.']);
+    expect(book.chapters[1].image).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('should render Markdown with a title page and chapter breaks', () => {
+    const markdown = toMarkdown(book);
+
+    expect(markdown.startsWith('# The Crypt\n')).toBe(true);
+    expect(markdown).toContain('*A Dark Fantasy chronicle*');
+    expect(markdown).toContain('## Chapter 1');
+    expect(markdown).toContain('> *Kick the door*');
+    expect(markdown).toContain('![Chapter 2 illustration](data:image/png;base64,');
+    expect(markdown.indexOf('## Chapter 1')).toBeLessThan(markdown.indexOf('## Chapter 2'));
+  });
+
+  it('should carry the genre font into standalone HTML', () => {
+    const html = toHtml(book);
+
+    expect(html).toContain('<body class="font-fantasy">');
+    expect(html).toContain("font-family: 'Cormorant Garamond', serif;");
+    expect(html).toContain('Beyond it, &lt;stairs&gt; lead down.');
+    expect(html).toContain('<img src="data:image/png;base64,');
+  });
+
+  it('should map genres to the same font classes as the game screen', () => {
+    expect(genreFontClass('High Fantasy')).toBe('font-fantasy');
+    expect(genreFontClass('Cosmic Horror')).toBe('font-80s text-xs');
+    expect(genreFontClass('Cyberpunk')).toBe('font-data');
+    expect(genreFontClass('Western')).toBe('font-inter');
+    expect(genreFontClass(undefined)).toBe('font-inter');
+  });
+
+  it('should package an EPUB with the mimetype entry first and uncompressed', () => {
+    const epub = toEpub(book);
+    const view = new DataView(epub.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(text(epub.slice(30, 38))).toBe('mimetype');
+    expect(text(epub.slice(38, 58))).toBe('application/epub+zip');
+
+    const contents = text(epub);
+    expect(contents).toContain('OEBPS/content.opf');
+    expect(contents).toContain('<package xmlns="http://www.idpf.org/2007/opf" version="3.0"');
+    expect(contents).toContain('properties="nav"');
+    expect(contents).toContain('OEBPS/images/scene-2.png');
+    expect(contents).toContain('<img src="images/scene-2.png"');
+    expect(contents).toContain('font-family: \'Cormorant Garamond\'');
+  });
+
+  it('should name files after the story title', () => {
+    expect(publishBook(book, 'markdown').fileName).toBe('the-crypt.md');
+    expect(publishBook(book, 'html').mimeType).toBe('text/html');
+    expect(publishBook(book, 'epub').fileName).toBe('the-crypt.epub');
+  });
+
+  it('should escape markup in player text', () => {
+    expect(escapeXml(`<b>"Tom" & 'Jerry'</b>`)).toBe('&lt;b&gt;&quot;Tom&quot; &amp; &#39;Jerry&#39;&lt;/b&gt;');
+  });
+});
+
+describe('Zip Archive', () => {
+  it('should compute the standard CRC-32 check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should write a central directory that lists every entry', () => {
+    const zip = createZip([{ path: 'a.txt', data: 'alpha' }, { path: 'b.txt', data: new Uint8Array([1, 2, 3]) }]);
+    const view = new DataView(zip.buffer);
+    const end = zip.length - 22;
+
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+    expect(centralOffset + view.getUint32(end + 12, true)).toBe(end);
+  });
+});
@@ -0,0 +1,111 @@
+import { jest } from '@jest/globals';
+import { createSSEParser, extractPartialStoryText, SSEEvent } from '../../streaming.ts';
+import { generateStoryBeatStream, setStoredApiKey, setLocalModelSettings } from '../../aiService.ts';
+import { AIProvider, GameState } from '../../types.ts';
+
+const mockFetch = jest.fn() as any;
+
+const mockState: GameState = {
+  storyText: 'The airship lurches.',
+  choices: ['Grab the rail', 'Jump'],
+  inventory: [{ id: 'goggles', name: 'Goggles', quantity: 1, description: '', tags: [], acquiredAt: 0 }],
+  currentQuest: 'Reach the tower',
+  visualPrompt: 'Airship over a brass city',
+  worldStyle: 'Steampunk',
+  genre: 'Steampunk'
+};
+
+// Fake fetch body that hands out the given text chunks one read at a time
+const streamingBody = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return {
+    getReader: () => ({
+      read: async () => index < chunks.length
+        ? { done: false, value: encoder.encode(chunks[index++]) }
+        : { done: true, value: undefined }
+    })
+  };
+};
+
+describe('SSE Parser', () => {
+  it('should emit events split across chunks', () => {
+    const events: SSEEvent[] = [];
+    const parser = createSSEParser(event => events.push(event));
+
+    parser.push('event: content_block_delta\ndata: {"a"');
+    parser.push(':1}\n\ndata: [DONE]\r\n\r\n');
+    parser.flush();
+
+    expect(events).toEqual([
+      { event: 'content_block_delta', data: '{"a":1}' },
+      { event: undefined, data: '[DONE]' }
+    ]);
+  });
+});
+
+describe('extractPartialStoryText', () => {
+  it('should return nothing before storyText starts', () => {
+    expect(extractPartialStoryText('{"choi')).toBe('');
+  });
+
+  it('should read an unfinished string value', () => {
+    expect(extractPartialStoryText('{"storyText": "The door opens')).toBe('The door opens');
+  });
+
+  it('should unescape characters and stop at the closing quote', () => {
+    expect(extractPartialStoryText('{"storyText":"He said \\"run\\"\\nNow.","choices":[')).toBe('He said "run"\nNow.');
+  });
+
+  it('should hold back a half-received escape sequence', () => {
+    expect(extractPartialStoryText('{"storyText":"Caf\\u00')).toBe('Caf');
+    expect(extractPartialStoryText('{"storyText":"Line\\')).toBe('Line');
+  });
+});
+
+describe('generateStoryBeatStream', () => {
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    localStorage.clear();
+  });
+
+  it('should stream OpenAI story text and return the parsed state', async () => {
+    setStoredApiKey(AIProvider.OPENAI, 'test-openai-key');
+    const json = JSON.stringify(mockState);
+    const sse = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+    mockFetch.mockResolvedValue({
+      ok: true,
+      body: streamingBody([
+        sse(json.slice(0, 25)),
+        sse(json.slice(25)),
+        `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 34 } })}\n\n`,
+        'data: [DONE]\n\n'
+      ])
+    });
+
+    const updates: string[] = [];
+    const result = await generateStoryBeatStream('Continue', AIProvider.OPENAI, text => updates.push(text));
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true);
+    expect(updates[0]).toBe('The airship');
+    expect(updates[updates.length - 1]).toBe(mockState.storyText);
+    expect(result.data).toEqual(mockState);
+    expect(result.usage).toEqual({ inputTokens: 12, outputTokens: 34, provider: AIProvider.OPENAI, model: 'gpt-4o-mini' });
+  });
+
+  it('should fall back to a single request for providers without streaming', async () => {
+    setLocalModelSettings({ baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' });
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: JSON.stringify(mockState) } }] })
+    });
+
+    const updates: string[] = [];
+    const result = await generateStoryBeatStream('Continue', AIProvider.LOCAL, text => updates.push(text));
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBeUndefined();
+    expect(updates).toEqual([mockState.storyText]);
+    expect(result.data).toEqual(mockState);
+  });
+});
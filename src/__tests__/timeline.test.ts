@@ -0,0 +1,96 @@
+import { rewindStory, forkSave, branchTree, timelineOf, countBranches, beatIndexAt } from '../../timeline.ts';
+import { rememberBeat, EMPTY_MEMORY } from '../../narrativeMemory.ts';
+import { GameHistoryItem, GameState, SaveSlot } from '../../types.ts';
+import { SAVE_SCHEMA_VERSION } from '../../saveSchema.ts';
+
+const stateFor = (storyText: string): GameState => ({
+  storyText,
+  choices: ['Go on'],
+  inventory: [],
+  currentQuest: 'Cross the desert',
+  visualPrompt: 'Dunes',
+  worldStyle: 'Painterly',
+  genre: 'Adventure'
+});
+
+// Newest first, as the game keeps it
+const history: GameHistoryItem[] = ['The oasis.', 'A sandstorm.', 'The caravan leaves.'].map((text, i) => ({
+  text,
+  choice: i === 2 ? 'The Beginning' : 'Go on',
+  state: stateFor(text)
+}));
+
+const memory = ['Left with the caravan', 'Survived a sandstorm', 'Found an oasis']
+  .reduce((mem, summary) => rememberBeat(mem, '', { summary, npcs: [summary.split(' ')[0]], places: [], promises: [], resolved: [] }), EMPTY_MEMORY);
+
+const slot = (id: string, branch?: SaveSlot['branch']): SaveSlot => ({
+  id,
+  schemaVersion: SAVE_SCHEMA_VERSION,
+  name: `Desert ${id}`,
+  genre: 'Adventure',
+  lastUpdated: 0,
+  gameState: history[0].state!,
+  history,
+  chatMessages: [{ role: 'user', text: 'How far to the city?' }],
+  usageStats: { inputTokens: 100, outputTokens: 200, imageCount: 3, premiumImageCount: 0, estimatedCost: 0.2, rerollCount: 0, rerollCost: 0 },
+  memory,
+  branch,
+  diceSeed: 1
+});
+
+describe('Timeline', () => {
+  it('should rewind to a beat and drop everything after it', () => {
+    const rewound = rewindStory(history, memory, 1)!;
+
+    expect(rewound.gameState.storyText).toBe('A sandstorm.');
+    expect(rewound.history.map(item => item.text)).toEqual(['A sandstorm.', 'The caravan leaves.']);
+    expect(rewound.memory.recaps).toEqual(['Left with the caravan', 'Survived a sandstorm']);
+    expect(rewound.memory.npcs).toEqual([]);
+  });
+
+  it('should refuse to rewind to a beat without stored state', () => {
+    const stateless = [history[0], { text: 'Old beat', choice: 'Go on' }];
+    expect(rewindStory(stateless, memory, 1)).toBeUndefined();
+  });
+
+  it('should fork a new save that records its branch point', () => {
+    const fork = forkSave(slot('main'), 1, 'fork-1', 1234)!;
+
+    expect(fork.id).toBe('fork-1');
+    expect(fork.name).toBe('Desert main (fork at beat 2)');
+    expect(fork.branch).toEqual({ parentId: 'main', beatIndex: 1, createdAt: 1234 });
+    expect(fork.history).toHaveLength(2);
+    expect(fork.gameState.storyText).toBe('A sandstorm.');
+    expect(fork.chatMessages).toEqual(slot('main').chatMessages);
+    expect(fork.usageStats.estimatedCost).toBe(0);
+  });
+
+  it('should count beat indexes from the opening beat', () => {
+    expect(beatIndexAt(history, 0)).toBe(2);
+    expect(beatIndexAt(history, 2)).toBe(0);
+  });
+
+  it('should arrange forks into a tree of timelines', () => {
+    const saves = [
+      slot('main'),
+      slot('late', { parentId: 'main', beatIndex: 2, createdAt: 2 }),
+      slot('early', { parentId: 'main', beatIndex: 0, createdAt: 3 }),
+      slot('nested', { parentId: 'early', beatIndex: 1, createdAt: 4 }),
+      slot('other')
+    ];
+
+    const roots = branchTree(saves);
+    expect(roots.map(node => node.slot.id)).toEqual(['main', 'other']);
+    expect(roots[0].children.map(node => node.slot.id)).toEqual(['early', 'late']);
+
+    const timeline = timelineOf(saves, 'nested')!;
+    expect(timeline.slot.id).toBe('main');
+    expect(countBranches(timeline)).toBe(4);
+    expect(countBranches(timelineOf(saves, 'other')!)).toBe(1);
+  });
+
+  it('should treat forks of deleted saves as their own timeline', () => {
+    const roots = branchTree([slot('orphan', { parentId: 'gone', beatIndex: 1, createdAt: 1 })]);
+    expect(roots.map(node => node.slot.id)).toEqual(['orphan']);
+  });
+});
@@ -1,5 +1,15 @@
 import '@testing-library/jest-dom';
 import { jest } from '@jest/globals';
+import { TextEncoder, TextDecoder } from 'util';
+import { webcrypto } from 'crypto';
+
+// jsdom does not provide these; streaming responses need them
+Object.assign(global, { TextEncoder, TextDecoder });
+
+// jsdom's crypto has no subtle; the asset store hashes images with it
+if (!globalThis.crypto?.subtle) {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+}
 
 // Mock environment variables
 process.env.GEMINI_API_KEY = 'test-gemini-key';
@@ -0,0 +1,256 @@
+import { GameHistoryItem } from "./types";
+import { getAssetDataUrl, isAssetRef } from "./assetStore";
+import { createZip } from "./zipArchive";
+
+// Turns a campaign into something to read rather than replay: a title page, one chapter per
+// story beat (oldest first) and the scene illustration that went with it. Markdown, standalone
+// HTML and EPUB 3 are all rendered from the same StoryBook.
+
+export type PublishFormat = 'markdown' | 'html' | 'epub';
+
+export interface StoryChapter {
+  number: number;
+  // The choice that led into this chapter; the opening chapter has none
+  choice?: string;
+  paragraphs: string[];
+  // Data URL of the scene illustration
+  image?: string;
+}
+
+export interface StoryBook {
+  id: string;
+  title: string;
+  genre: string;
+  publishedAt: number;
+  chapters: StoryChapter[];
+}
+
+export interface PublishedFile {
+  fileName: string;
+  mimeType: string;
+  data: string | Uint8Array;
+}
+
+// The same mapping the game screen uses for the story text
+export const genreFontClass = (genre?: string): string => {
+  if (!genre) return 'font-inter';
+  const lower = genre.toLowerCase();
+  if (lower.includes('fantasy')) return 'font-fantasy';
+  if (lower.includes('80s') || lower.includes('horror')) return 'font-80s text-xs';
+  if (lower.includes('cyberpunk') || lower.includes('steampunk')) return 'font-data';
+  return 'font-inter';
+};
+
+// CSS for each genre font class, mirroring index.html. The web fonts are linked from the HTML
+// export only; EPUB readers fall back to the generic family.
+const GENRE_FONT_CSS: Record<string, string> = {
+  'font-fantasy': "font-family: 'Cormorant Garamond', serif;",
+  'font-80s': "font-family: 'Press Start 2P', cursive; font-size: 0.75rem; line-height: 1.8;",
+  'font-data': "font-family: 'VT323', monospace; font-size: 1.25rem;",
+  'font-inter': "font-family: 'Inter', system-ui, sans-serif;"
+};
+
+const GOOGLE_FONTS_URL = 'https://fonts.googleapis.com/css2?family=Cormorant+Garamond:wght@400;700&family=Inter:wght@400;700;900&family=Press+Start+2P&family=VT323&display=swap';
+
+// Only the font family class; Tailwind sizing classes have no meaning outside the app
+const primaryFontClass = (genre: string): string => genreFontClass(genre).split(' ')[0];
+
+const THE_BEGINNING = 'The Beginning';
+
+const splitParagraphs = (text: string): string[] => text.split(/\n+/).map(line => line.trim()).filter(Boolean);
+
+const chapterImage = async (item: GameHistoryItem): Promise<string | undefined> => {
+  if (isAssetRef(item.imageAsset)) {
+    const dataUrl = await getAssetDataUrl(item.imageAsset).catch(() => undefined);
+    if (dataUrl) return dataUrl;
+  }
+  return item.imageUrl?.startsWith('data:image/') ? item.imageUrl : undefined;
+};
+
+// history is newest first, as the game keeps it
+export const buildBook = async (source: { id: string; title: string; genre: string; history: GameHistoryItem[] }): Promise<StoryBook> => {
+  const beats = [...source.history].reverse();
+  const chapters: StoryChapter[] = [];
+  for (const [index, item] of beats.entries()) {
+    chapters.push({
+      number: index + 1,
+      choice: index > 0 && item.choice && item.choice !== THE_BEGINNING ? item.choice : undefined,
+      paragraphs: splitParagraphs(item.text),
+      image: await chapterImage(item)
+    });
+  }
+  return { id: source.id, title: source.title, genre: source.genre, publishedAt: Date.now(), chapters };
+};
+
+const publishedDate = (book: StoryBook): string => new Date(book.publishedAt).toISOString().slice(0, 10);
+
+export const escapeXml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+export const toMarkdown = (book: StoryBook): string => {
+  const lines = [`# ${book.title}`, '', `*A ${book.genre} chronicle*`, '', `Published ${publishedDate(book)}`];
+  for (const chapter of book.chapters) {
+    lines.push('', '---', '', `## Chapter ${chapter.number}`, '');
+    if (chapter.choice) lines.push(`> *${chapter.choice}*`, '');
+    if (chapter.image) lines.push(`![Chapter ${chapter.number} illustration](${chapter.image})`, '');
+    lines.push(chapter.paragraphs.join('\n\n'));
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+const bookCss = (book: StoryBook): string => `
+body { margin: 0 auto; max-width: 42em; padding: 0 1.5em; line-height: 1.6; color: #1e293b; ${GENRE_FONT_CSS[primaryFontClass(book.genre)]} }
+.title-page { text-align: center; padding: 30vh 0 4em; page-break-after: always; break-after: page; }
+.title-page h1 { font-size: 2.4em; margin: 0 0 0.4em; }
+.title-page .genre { font-style: italic; }
+.title-page .date { font-size: 0.8em; color: #64748b; }
+.chapter { page-break-before: always; break-before: page; padding-top: 3em; }
+.chapter h2 { text-align: center; letter-spacing: 0.2em; text-transform: uppercase; font-size: 1em; }
+.chapter .choice { text-align: center; font-style: italic; color: #475569; }
+.chapter figure { margin: 1.5em 0; text-align: center; }
+.chapter img { max-width: 100%; border-radius: 0.5em; }
+.chapter p { text-indent: 1.5em; margin: 0 0 0.6em; }
+`.trim();
+
+// Shared by the HTML export and the EPUB chapters; img.src is whatever the format needs
+const chapterMarkup = (chapter: StoryChapter, imageSrc?: string): string => [
+  `<section class="chapter" id="chapter-${chapter.number}">`,
+  `<h2>Chapter ${chapter.number}</h2>`,
+  chapter.choice ? `<p class="choice">${escapeXml(chapter.choice)}</p>` : '',
+  imageSrc ? `<figure><img src="${escapeXml(imageSrc)}" alt="Chapter ${chapter.number} illustration"/></figure>` : '',
+  ...chapter.paragraphs.map(paragraph => `<p>${escapeXml(paragraph)}</p>`),
+  '</section>'
+].filter(Boolean).join('\n');
+
+const titleMarkup = (book: StoryBook): string => [
+  '<section class="title-page">',
+  `<h1>${escapeXml(book.title)}</h1>`,
+  `<p class="genre">A ${escapeXml(book.genre)} chronicle</p>`,
+  `<p class="date">Published ${publishedDate(book)}</p>`,
+  '</section>'
+].join('\n');
+
+export const toHtml = (book: StoryBook): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeXml(book.title)}</title>
+<link href="${GOOGLE_FONTS_URL}" rel="stylesheet">
+<style>
+${bookCss(book)}
+</style>
+</head>
+<body class="${primaryFontClass(book.genre)}">
+${titleMarkup(book)}
+${book.chapters.map(chapter => chapterMarkup(chapter, chapter.image)).join('\n')}
+</body>
+</html>
+`;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+const decodeImage = (dataUrl: string): { bytes: Uint8Array; mimeType: string } | undefined => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (!match || !IMAGE_EXTENSIONS[match[1]]) return undefined;
+  return { bytes: Uint8Array.from(atob(match[2]), char => char.charCodeAt(0)), mimeType: match[1] };
+};
+
+const xhtmlPage = (book: StoryBook, title: string, body: string, extraNamespace = ''): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"${extraNamespace} xml:lang="en" lang="en">
+<head>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body class="${primaryFontClass(book.genre)}">
+${body}
+</body>
+</html>
+`;
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+export const toEpub = (book: StoryBook): Uint8Array => {
+  const images = book.chapters.map(chapter => {
+    const decoded = chapter.image ? decodeImage(chapter.image) : undefined;
+    return decoded && { ...decoded, path: `images/scene-${chapter.number}.${IMAGE_EXTENSIONS[decoded.mimeType]}` };
+  });
+  const chapterFile = (chapter: StoryChapter) => `chapter-${chapter.number}.xhtml`;
+  const modified = `${new Date(book.publishedAt).toISOString().slice(0, 19)}Z`;
+
+  const manifest = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="style" href="style.css" media-type="text/css"/>',
+    '<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>',
+    ...book.chapters.map(chapter => `<item id="chapter-${chapter.number}" href="${chapterFile(chapter)}" media-type="application/xhtml+xml"/>`),
+    ...images.flatMap((image, i) => image ? [`<item id="scene-${book.chapters[i].number}" href="${image.path}" media-type="${image.mimeType}"/>`] : [])
+  ];
+  const spine = ['<itemref idref="title"/>', ...book.chapters.map(chapter => `<itemref idref="chapter-${chapter.number}"/>`)];
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:chronicle-weaver:${escapeXml(book.id)}</dc:identifier>
+    <dc:title>${escapeXml(book.title)}</dc:title>
+    <dc:language>en</dc:language>
+    <dc:subject>${escapeXml(book.genre)}</dc:subject>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spine.join('\n    ')}
+  </spine>
+</package>
+`;
+
+  const nav = xhtmlPage(book, book.title, [
+    '<nav epub:type="toc" id="toc">',
+    '<h2>Contents</h2>',
+    '<ol>',
+    '<li><a href="title.xhtml">Title Page</a></li>',
+    ...book.chapters.map(chapter => `<li><a href="${chapterFile(chapter)}">Chapter ${chapter.number}</a></li>`),
+    '</ol>',
+    '</nav>'
+  ].join('\n'), ' xmlns:epub="http://www.idpf.org/2007/ops"');
+
+  return createZip([
+    { path: 'mimetype', data: 'application/epub+zip' },
+    { path: 'META-INF/container.xml', data: CONTAINER_XML },
+    { path: 'OEBPS/content.opf', data: opf },
+    { path: 'OEBPS/nav.xhtml', data: nav },
+    { path: 'OEBPS/style.css', data: bookCss(book) },
+    { path: 'OEBPS/title.xhtml', data: xhtmlPage(book, book.title, titleMarkup(book)) },
+    ...book.chapters.map((chapter, i) => ({
+      path: `OEBPS/${chapterFile(chapter)}`,
+      data: xhtmlPage(book, `Chapter ${chapter.number}`, chapterMarkup(chapter, images[i]?.path))
+    })),
+    ...images.flatMap(image => image ? [{ path: `OEBPS/${image.path}`, data: image.bytes }] : [])
+  ], new Date(book.publishedAt));
+};
+
+const fileSlug = (title: string): string => title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'chronicle';
+
+export const publishBook = (book: StoryBook, format: PublishFormat): PublishedFile => {
+  const slug = fileSlug(book.title);
+  if (format === 'markdown') return { fileName: `${slug}.md`, mimeType: 'text/markdown', data: toMarkdown(book) };
+  if (format === 'html') return { fileName: `${slug}.html`, mimeType: 'text/html', data: toHtml(book) };
+  return { fileName: `${slug}.epub`, mimeType: 'application/epub+zip', data: toEpub(book) };
+};
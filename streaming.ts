@@ -0,0 +1,90 @@
+// Helpers for streamed story generation: server-sent event parsing and reading the
+// storyText field out of JSON that is still being written.
+
+export interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+// Incremental SSE parser. Feed it decoded text as it arrives; complete events are emitted in order.
+export const createSSEParser = (onEvent: (event: SSEEvent) => void) => {
+  let buffer = '';
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName, data: dataLines.join('\n') });
+    }
+    eventName = undefined;
+    dataLines = [];
+  };
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+      let newline = buffer.search(/\r?\n/);
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(buffer[newline] === '\r' ? newline + 2 : newline + 1);
+        if (line === '') {
+          dispatch();
+        } else if (line.startsWith('event:')) {
+          eventName = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+        newline = buffer.search(/\r?\n/);
+      }
+    },
+    flush: () => {
+      if (buffer.startsWith('data:')) dataLines.push(buffer.slice(5).replace(/^ /, ''));
+      buffer = '';
+      dispatch();
+    }
+  };
+};
+
+export const readSSE = async (response: Response, onEvent: (event: SSEEvent) => void): Promise<void> => {
+  if (!response.body) throw new Error('Streaming response has no body');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createSSEParser(onEvent);
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.flush();
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+
+// Returns as much of the storyText value as has arrived so far, unescaped.
+// Stops before a dangling escape sequence so half-received characters never flash on screen.
+export const extractPartialStoryText = (raw: string): string => {
+  const match = /"storyText"\s*:\s*"/.exec(raw);
+  if (!match) return '';
+
+  let text = '';
+  for (let i = match.index + match[0].length; i < raw.length; i++) {
+    const ch = raw[i];
+    if (ch === '"') break;
+    if (ch !== '\\') {
+      text += ch;
+      continue;
+    }
+    const next = raw[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = raw.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      text += ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return text;
+};
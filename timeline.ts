@@ -0,0 +1,75 @@
+import { GameHistoryItem, GameState, NarrativeMemory, SaveSlot } from "./types";
+import { EMPTY_MEMORY, rewindMemory } from "./narrativeMemory";
+import { SAVE_SCHEMA_VERSION, EMPTY_USAGE } from "./saveSchema";
+
+// Branching timelines. Every history item keeps the GameState it produced, so the story can be
+// rewound to any beat, or forked there into a new save that remembers its parent. Saves forked
+// from one another form a tree, which is how alternate timelines of a campaign are found.
+//
+// "position" is an index into history as the game keeps it (newest first); "beatIndex" counts
+// from the opening beat and does not shift as the story grows, so it is what gets stored.
+
+export interface RewoundStory {
+  gameState: GameState;
+  history: GameHistoryItem[];
+  memory: NarrativeMemory;
+}
+
+export interface BranchNode {
+  slot: SaveSlot;
+  children: BranchNode[];
+}
+
+export const beatIndexAt = (history: GameHistoryItem[], position: number): number => history.length - 1 - position;
+
+// Undefined when the beat has no stored state to return to
+export const rewindStory = (history: GameHistoryItem[], memory: NarrativeMemory, position: number): RewoundStory | undefined => {
+  const item = history[position];
+  if (!item?.state) return undefined;
+  const kept = history.slice(position);
+  return { gameState: item.state, history: kept, memory: rewindMemory(memory, kept) };
+};
+
+// The fork starts with its own usage counters; what the shared beats cost stays with the parent
+export const forkSave = (slot: SaveSlot, position: number, id: string, now: number = Date.now()): SaveSlot | undefined => {
+  const rewound = rewindStory(slot.history, slot.memory || EMPTY_MEMORY, position);
+  if (!rewound) return undefined;
+  const beatIndex = beatIndexAt(slot.history, position);
+  return {
+    ...slot,
+    id,
+    schemaVersion: SAVE_SCHEMA_VERSION,
+    name: `${slot.name} (fork at beat ${beatIndex + 1})`,
+    lastUpdated: now,
+    gameState: rewound.gameState,
+    history: rewound.history,
+    chatMessages: [...slot.chatMessages],
+    usageStats: EMPTY_USAGE,
+    memory: rewound.memory,
+    branch: { parentId: slot.id, beatIndex, createdAt: now }
+  };
+};
+
+// Saves whose parent is gone become roots of their own tree. Children are ordered by branch point.
+export const branchTree = (saves: SaveSlot[]): BranchNode[] => {
+  const nodes = new Map(saves.map(slot => [slot.id, { slot, children: [] as BranchNode[] }]));
+  const roots: BranchNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.slot.branch && node.slot.branch.parentId !== node.slot.id ? nodes.get(node.slot.branch.parentId) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+  for (const node of nodes.values()) {
+    node.children.sort((a, b) => a.slot.branch!.beatIndex - b.slot.branch!.beatIndex || a.slot.branch!.createdAt - b.slot.branch!.createdAt);
+  }
+  return roots;
+};
+
+const contains = (node: BranchNode, id: string): boolean => node.slot.id === id || node.children.some(child => contains(child, id));
+
+// The whole tree of timelines the given save belongs to
+export const timelineOf = (saves: SaveSlot[], id: string): BranchNode | undefined => {
+  return branchTree(saves).find(root => contains(root, id));
+};
+
+export const countBranches = (node: BranchNode): number => 1 + node.children.reduce((sum, child) => sum + countBranches(child), 0);
@@ -2,7 +2,8 @@
 export enum AIProvider {
   GEMINI = 'gemini',
   OPENAI = 'openai',
-  CLAUDE = 'claude'
+  CLAUDE = 'claude',
+  LOCAL = 'local'
 }
 
 export enum ImageSize {
@@ -11,14 +12,118 @@ export enum ImageSize {
   K4 = '4K'
 }
 
+export type AspectRatio = '1:1' | '16:9' | '9:16';
+
 export interface GameState {
   storyText: string;
   choices: string[];
-  inventory: string[];
+  inventory: InventoryItem[];
   currentQuest: string;
   visualPrompt: string;
   worldStyle: string;
   genre: string;
+  memoryNotes?: MemoryNotes; // Only on fresh model replies; moved into NarrativeMemory when the beat is committed
+  actionCheck?: ActionCheck; // Only on replies to a typed action; moved onto the history item
+  inventoryChanges?: InventoryChangeNote[]; // Only on fresh model replies; used to accept the inventory diff
+  character?: CharacterSheet; // Only in games started with the character sheet rules
+  skillChecks?: SkillCheck[]; // Which of the current choices need a dice roll
+  quests?: Quest[]; // Every quest so far, finished ones included; currentQuest names the one in focus
+}
+
+export type QuestStatus = 'active' | 'completed' | 'failed' | 'abandoned';
+
+export interface QuestObjective {
+  text: string;
+  done: boolean;
+}
+
+export interface Quest {
+  id: string;
+  title: string;
+  objectives: QuestObjective[];
+  status: QuestStatus;
+  startedAt: number; // Index of the beat (oldest first) in which the quest was taken on
+  endedAt?: number; // Set once the status is no longer active
+}
+
+export type Attribute = 'might' | 'agility' | 'wits' | 'presence';
+
+export interface CharacterSheet {
+  name: string;
+  hp: number;
+  maxHp: number;
+  attributes: Record<Attribute, number>; // Scores from 3 to 18; 10 is average
+}
+
+// A choice the model tagged as risky, and what it takes to pull it off
+export interface SkillCheck {
+  choice: string;
+  attribute: Attribute;
+  difficulty: number;
+}
+
+export type CheckOutcome = 'critical success' | 'success' | 'failure' | 'critical failure';
+
+// A check settled on the client before the outcome was sent to the story model
+export interface CheckResult {
+  attribute: Attribute;
+  difficulty: number;
+  roll: number; // The d20 as it landed
+  modifier: number;
+  total: number;
+  outcome: CheckOutcome;
+}
+
+export interface InventoryItem {
+  id: string;
+  name: string;
+  quantity: number;
+  description: string;
+  tags: string[];
+  acquiredAt: number; // Index of the beat (oldest first) in which the item was gained
+}
+
+// The model's explanation for one item it added, removed or altered
+export interface InventoryChangeNote {
+  id?: string;
+  name: string;
+  reason: string;
+}
+
+export interface InventoryChange {
+  kind: 'gained' | 'lost' | 'changed';
+  item: InventoryItem; // The item as it is now, or as it was for 'lost'
+  before?: InventoryItem; // Only for 'changed'
+  reason?: string;
+}
+
+// What a beat did to the inventory. Rejected changes came without an explanation and were undone.
+export interface InventoryDiff {
+  changes: InventoryChange[];
+  rejected: InventoryChange[];
+}
+
+// The story model's ruling on an action the player typed themselves
+export interface ActionCheck {
+  plausible: boolean;
+  reason: string;
+}
+
+// What the story model reports about a single beat so it can be remembered later
+export interface MemoryNotes {
+  summary: string;
+  npcs: string[];
+  places: string[];
+  promises: string[];
+  resolved: string[]; // Earlier promises kept or broken in this beat
+}
+
+// Long-term memory for a save: a one-line recap per beat (oldest first) plus the key facts so far
+export interface NarrativeMemory {
+  recaps: string[];
+  npcs: string[];
+  places: string[];
+  promises: string[];
 }
 
 export interface ChatMessage {
@@ -29,8 +134,27 @@ export interface ChatMessage {
 export interface GameHistoryItem {
   text: string;
   choice: string;
-  imageUrl?: string;
+  imageUrl?: string; // Display URL for this session only; saves keep imageAsset instead
+  imageAsset?: string; // "asset:<sha256>" reference into the IndexedDB image store
   state?: GameState; // Optional state for restoring to this point
+  promptVersions?: string[]; // Template versions that produced this beat, e.g. "advanceStory@v1"
+  takes?: BeatTake[]; // Every version of a rerolled beat; the fields above mirror takes[activeTake]
+  activeTake?: number;
+  customAction?: boolean; // The choice was typed by the player rather than picked from the offered ones
+  actionCheck?: ActionCheck;
+  inventoryDiff?: InventoryDiff;
+  checkResult?: CheckResult; // The roll for the choice that led here; shared by every take
+}
+
+// One generated version of a story beat
+export interface BeatTake {
+  text: string;
+  state: GameState;
+  imageAsset?: string;
+  promptVersions?: string[];
+  notes?: MemoryNotes; // Kept so memory can be rebuilt when the player switches takes
+  actionCheck?: ActionCheck;
+  inventoryDiff?: InventoryDiff;
 }
 
 export interface UsageStats {
@@ -39,10 +163,13 @@ export interface UsageStats {
   imageCount: number;
   premiumImageCount: number;
   estimatedCost: number;
+  rerollCount: number; // Beats generated again by "Reroll"; already included in the totals above
+  rerollCost: number;
 }
 
 export interface SaveSlot {
   id: string;
+  schemaVersion: number; // See saveSchema.ts; older records are upgraded when loaded
   name: string;
   genre: string;
   lastUpdated: number;
@@ -50,4 +177,14 @@ export interface SaveSlot {
   history: GameHistoryItem[];
   chatMessages: ChatMessage[];
   usageStats: UsageStats;
+  memory?: NarrativeMemory;
+  branch?: BranchPoint; // Set on saves forked from another save
+  diceSeed: number; // Seeds every skill check in this save, so replaying a beat rolls the same
+}
+
+// Where a forked save split off: the parent save and the 0-based index (oldest first) of the last shared beat
+export interface BranchPoint {
+  parentId: string;
+  beatIndex: number;
+  createdAt: number;
 }